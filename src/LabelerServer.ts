@@ -1,33 +1,120 @@
+import { createHash } from "node:crypto";
 import { Secp256k1Keypair } from "@atproto/crypto";
-import { MongoDBClient } from "./mongodb.js";
-import { CreateLabelData, SavedLabel, SignedLabel, UnsignedLabel } from "./util/types.js";
-import { validateCid, validateDid, validateVal, validateCts, validateExp, validateUri } from "./util/validators.js";
-import { LabelerServerError, AtProtocolValidationError } from "./errors";
-import { ObjectId } from "mongodb";
+import { fastify, type FastifyError, type FastifyInstance, type FastifyReply, type FastifyRequest } from "fastify";
+import fastifyWebsocket from "@fastify/websocket";
+import type { WebSocket } from "ws";
+import { MongoDBClient, MongoDBTlsOptions } from "./mongodb.js";
+import type { ActiveLabelOptions, LabelStore, SaveLabelsResult } from "./store.js";
+import { LabelDefinitionRegistry } from "./definitions.js";
+import { ModerationEventLog, type ModerationEventType } from "./events.js";
+import { type Report, ReportManager } from "./reports.js";
+import { CaseQueue } from "./cases.js";
+import { ExpirySweeper, type ExpirySweeperOptions } from "./expiry.js";
+import { type LabelHookMap, type LabelHookName, LabelHooks } from "./hooks.js";
+import { WebhookDispatcher, type WebhookOptions } from "./webhooks.js";
+import { ChangeStreamFanout, type ChangeStreamFanoutOptions } from "./fanout.js";
+import type { SchemaDriftReport, SchemaValidationMode } from "./schema.js";
+import {
+  LABEL_DATES_MIGRATION_VERSION,
+  type MigrationResult,
+  MigrationRunner,
+  storeLabelDatesAsDates,
+} from "./migrations.js";
+import { type AuthorizationPolicy, type LabelAction, LabelAuthorizer, verifyServiceJwt } from "./auth.js";
+import { CreateLabelData, CreateLabelsOptions, CreateLabelsResult, FormattedLabel, LabelVerificationReport, ModerationContext, ModerationSubject, ProcedureHandler, QueryHandler, QueryLabelsOptions, QueryLabelsResult, SavedLabel, SignedLabel, SubscriptionHandler, UnsignedLabel } from "./util/types.js";
+import { validateCid, validateDid, validateVal, validateCts, validateExp, validateUri, validateSubjectPattern } from "./util/validators.js";
+import { encodeLabelCbor, formatLabel, formatLabelCbor, toSignedLabel, verifyLabel } from "./util/labels.js";
+import { DidResolver, publicKeyToDidKey, resolveLabelerKey } from "./util/did.js";
+import { frameToBytes } from "./util/util.js";
+import { LabelerServerError, AtProtocolValidationError, AuthorizationError, DuplicateIdempotencyKeyError, XRPCError } from "./errors";
+import { Filter, MongoClientOptions, ObjectId } from "mongodb";
+
+const DEFAULT_PORT = 4100;
+const DEFAULT_QUERY_LIMIT = 50;
+const MAX_QUERY_LIMIT = 250;
+const REPLAY_BATCH_SIZE = 500;
+const FIRST_CURSOR = 0;
+const MAX_IDEMPOTENCY_KEY_LENGTH = 256;
+
+/**
+* A client connected to `com.atproto.label.subscribeLabels`.
+*/
+interface LabelSubscriber {
+  socket: WebSocket;
+  /** Labels emitted while the subscriber is still replaying from its cursor. */
+  pending?: SavedLabel[];
+}
+
+/**
+* The subset of `tools.ozone.moderation.emitEvent` input supported by the labeler:
+* `modEventLabel` events on an account or a record.
+*/
+interface EmitEventInput {
+  event: {
+    $type: string;
+    createLabelVals?: string[];
+    negateLabelVals?: string[];
+    durationInHours?: number;
+    comment?: string;
+  };
+  subject: ModerationSubject;
+  createdBy: string;
+}
 
 /**
 * Options for initializing a LabelerServer instance.
 *
 * @param did - The DID of the labeler.
 * @param signingKey - The signing key of the labeler, as a base64-encoded string.
-* @param mongoUri - The URI to connect to the MongoDB instance.
-* @param databaseName - The name of the MongoDB database to use. Defaults to 'labeler'.
+* @param mongoUri - The URI to connect to the MongoDB instance. Required unless a `store` is given.
+* @param store - The store to keep labels in, instead of a MongoDB instance at `mongoUri`.
+* @param databaseName - The name of the MongoDB database to use. Defaults to the database in
+* `mongoUri`, or the driver's default 'test' if it names none.
 * @param collectionName - The name of the MongoDB collection to use. Defaults to 'labels'.
+* @param appName - The application name reported to MongoDB, shown in server logs and profiling.
+* @param tls - Whether to connect to MongoDB over TLS, or the TLS settings to connect with.
+* @param mongoClientOptions - Any other options for the underlying MongoClient.
+* @param schemaValidation - How the labels collection's `$jsonSchema` validator treats invalid labels:
+* 'error', 'warn', or 'off' to leave the validator alone. Defaults to 'error'.
+* @param replaceSchemaValidator - Whether a validator the labeler did not apply to the labels
+* collection is replaced by its own. Such a validator is only reported by default.
+* @param expiredLabelTtl - How long after their `exp` MongoDB deletes labels with a TTL index, in
+* milliseconds. Labels are kept until negated by default.
 * @param port - The port to listen on. Defaults to 4100.
+* @param didResolver - Resolves DID documents when verifying labels against a DID's `#atproto_label` key.
+* @param enforceLabelDefinitions - Whether `createLabel` only accepts label values declared in
+* {@link LabelerServer.definitions}, or global `!` values. Requires a MongoDB store. Defaults to false.
+* @param authorization - The moderators allowed to label, and what they may do. When given, every
+* label operation must name its actor, which must be the labeler or be granted the operation, and
+* labels may only be created with the labeler's DID as `src`. Moderators authenticated with
+* service auth over XRPC are always checked against it.
 */
 export interface LabelerOptions {
   did: `did:${string}`;
   signingKey: string;
-  mongoUri: string;
+  mongoUri?: string;
+  store?: LabelStore;
   databaseName?: string;
   collectionName?: string;
+  appName?: string;
+  tls?: boolean | MongoDBTlsOptions;
+  mongoClientOptions?: MongoClientOptions;
+  schemaValidation?: SchemaValidationMode;
+  replaceSchemaValidator?: boolean;
+  expiredLabelTtl?: number;
   port?: number;
+  didResolver?: DidResolver;
+  enforceLabelDefinitions?: boolean;
+  authorization?: AuthorizationPolicy;
+  expirySweep?: ExpirySweeperOptions;
+  webhooks?: WebhookOptions;
+  changeStream?: ChangeStreamFanoutOptions;
 }
 
 /**
 * LabelerServer is responsible for managing label creation, querying, and deletion
-* operations. It interfaces with a MongoDB database to persist label data and uses
-* cryptographic signing to ensure label authenticity.
+* operations. It persists label data in a {@link LabelStore}, MongoDB by default, and
+* uses cryptographic signing to ensure label authenticity.
 *
 * This class requires initialization with LabelerOptions, which include database
 * connection details and a signing key. The server supports operations such as
@@ -36,10 +123,15 @@ export interface LabelerOptions {
 *
 * The labels are signed using a Secp256k1Keypair, and the signatures are stored
 * in the database alongside the label data.
+*
+* Labels are also served over HTTP through the `com.atproto.label.queryLabels`
+* XRPC endpoint, and streamed to `com.atproto.label.subscribeLabels` WebSocket
+* subscribers as they are created or negated, once {@link LabelerServer.start}
+* has been called.
 */
 export class LabelerServer {
-  private readonly _db: MongoDBClient;
-  public get db(): MongoDBClient {
+  private readonly _db: LabelStore;
+  public get db(): LabelStore {
     return this._db;
   }
   
@@ -53,6 +145,107 @@ export class LabelerServer {
     return this._did;
   }
   
+  private readonly _app: FastifyInstance;
+  public get app(): FastifyInstance {
+    return this._app;
+  }
+  
+  private readonly _port: number;
+  
+  private readonly _didResolver?: DidResolver;
+  
+  private readonly _definitions?: LabelDefinitionRegistry;
+  /**
+  * The registry of label values this labeler declares.
+  * @throws {LabelerServerError} If the labels are not stored in MongoDB
+  */
+  public get definitions(): LabelDefinitionRegistry {
+    if (!this._definitions) {
+      throw new LabelerServerError("Label definitions require a MongoDB label store");
+    }
+    return this._definitions;
+  }
+  
+  private readonly _events?: ModerationEventLog;
+  /**
+  * The log of moderation events recorded for every label operation.
+  * @throws {LabelerServerError} If the labels are not stored in MongoDB
+  */
+  public get events(): ModerationEventLog {
+    if (!this._events) {
+      throw new LabelerServerError("The moderation event log requires a MongoDB label store");
+    }
+    return this._events;
+  }
+  
+  private readonly _reports?: ReportManager;
+  /**
+  * The reports received through `com.atproto.moderation.createReport`.
+  * @throws {LabelerServerError} If the labels are not stored in MongoDB
+  */
+  public get reports(): ReportManager {
+    if (!this._reports) {
+      throw new LabelerServerError("Reports require a MongoDB label store");
+    }
+    return this._reports;
+  }
+  
+  private readonly _cases?: CaseQueue;
+  /**
+  * The queue of subjects awaiting review by moderators.
+  * @throws {LabelerServerError} If the labels are not stored in MongoDB
+  */
+  public get cases(): CaseQueue {
+    if (!this._cases) {
+      throw new LabelerServerError("The case queue requires a MongoDB label store");
+    }
+    return this._cases;
+  }
+  
+  private readonly _migrations?: MigrationRunner;
+  /**
+  * The runner applying versioned migrations to the labels collection.
+  * @throws {LabelerServerError} If the labels are not stored in MongoDB
+  */
+  public get migrations(): MigrationRunner {
+    if (!this._migrations) {
+      throw new LabelerServerError("Migrations require a MongoDB label store");
+    }
+    return this._migrations;
+  }
+  
+  private readonly _webhooks?: WebhookDispatcher;
+  /**
+  * The webhooks sent to registered endpoints when labels are created or negated.
+  * @throws {LabelerServerError} If the `webhooks` option is not set
+  */
+  public get webhooks(): WebhookDispatcher {
+    if (!this._webhooks) {
+      throw new LabelerServerError("Webhooks require the webhooks option");
+    }
+    return this._webhooks;
+  }
+  
+  private readonly _expirySweeper: ExpirySweeper;
+  /**
+  * The sweeper that negates labels once they expire. It runs in the background
+  * while the server is started if the `expirySweep` option is set.
+  */
+  public get expirySweeper(): ExpirySweeper {
+    return this._expirySweeper;
+  }
+  private readonly _sweepExpiredLabels: boolean;
+  
+  private readonly _enforceLabelDefinitions: boolean;
+  
+  private readonly _authorizer: LabelAuthorizer;
+  private readonly _enforceAuthorization: boolean;
+  
+  private readonly _subscribers = new Set<LabelSubscriber>();
+  private readonly _fanout?: ChangeStreamFanout;
+  
+  private readonly _hooks = new LabelHooks();
+  
   private _initializeSigner: Promise<void>;
   private _initializationError?: Error;
   
@@ -79,17 +272,83 @@ export class LabelerServer {
       if (!options.signingKey) {
         throw new LabelerServerError("Invalid server configuration: Missing required parameter: signingKey");
       }
-      if (!options.mongoUri) {
+      if (!options.store && !options.mongoUri) {
         throw new LabelerServerError("Invalid server configuration: Missing required parameter: mongoUri");
       }
       
       // Validate the server's DID from the start
       validateDid(options.did);
       
-      // Initialize MongoDB client
-      this._db = new MongoDBClient(options.mongoUri);
+      // Use the given store, or initialize a MongoDB client
+      this._db = options.store ?? new MongoDBClient({
+        uri: options.mongoUri ?? "",
+        databaseName: options.databaseName,
+        collectionName: options.collectionName,
+        appName: options.appName,
+        tls: options.tls,
+        clientOptions: options.mongoClientOptions,
+        schemaValidation: options.schemaValidation,
+        replaceSchemaValidator: options.replaceSchemaValidator,
+        expiredLabelTtl: options.expiredLabelTtl,
+      });
       
       this._did = options.did;
+      this._port = options.port ?? DEFAULT_PORT;
+      this._didResolver = options.didResolver;
+      
+      if (this._db instanceof MongoDBClient) {
+        this._definitions = new LabelDefinitionRegistry(this._db);
+        this._events = new ModerationEventLog(this._db);
+        this._reports = new ReportManager(this._db);
+        this._cases = new CaseQueue(this._db, this);
+        this._migrations = new MigrationRunner(this._db, {
+          sign: async (label): Promise<Uint8Array> => (await this._signLabel(label)).sig,
+        });
+      }
+      this._enforceLabelDefinitions = options.enforceLabelDefinitions ?? false;
+      if (this._enforceLabelDefinitions && !this._definitions) {
+        throw new LabelerServerError("Enforcing label definitions requires a MongoDB label store");
+      }
+      
+      this._authorizer = new LabelAuthorizer(this._did, options.authorization ?? []);
+      this._enforceAuthorization = options.authorization !== undefined;
+      
+      this._expirySweeper = new ExpirySweeper(this, options.expirySweep);
+      this._sweepExpiredLabels = options.expirySweep !== undefined;
+      
+      if (options.webhooks) {
+        if (!(this._db instanceof MongoDBClient)) {
+          throw new LabelerServerError("Webhooks require a MongoDB label store");
+        }
+        const webhooks = new WebhookDispatcher(this._db, options.webhooks);
+        // Labels that fail to queue are picked up by the next delivery run
+        const enqueue = async (label: SavedLabel): Promise<void> => {
+          await webhooks.enqueue(label).catch((error: unknown) => {
+            console.warn(`Failed to queue webhooks for label ${label.seq}, queueing them on the next delivery run:`, error);
+          });
+        };
+        this._hooks.on("afterCreate", enqueue);
+        this._hooks.on("afterNegate", enqueue);
+        this._webhooks = webhooks;
+      }
+      
+      if (options.changeStream) {
+        if (!(this._db instanceof MongoDBClient)) {
+          throw new LabelerServerError("Change stream fan-out requires a MongoDB label store");
+        }
+        this._fanout = new ChangeStreamFanout(this._db, options.changeStream, (label) => this._broadcastLabel(label));
+      }
+      
+      // Initialize the XRPC HTTP server
+      this._app = fastify();
+      this._app.setErrorHandler(this._errorHandler);
+      this._app.register(fastifyWebsocket);
+      this._app.register(async (app) => {
+        app.get("/xrpc/com.atproto.label.queryLabels", this._queryLabelsHandler);
+        app.get("/xrpc/com.atproto.label.subscribeLabels", { websocket: true }, this._subscribeLabelsHandler);
+        app.post("/xrpc/tools.ozone.moderation.emitEvent", this._emitEventHandler);
+        app.post("/xrpc/com.atproto.moderation.createReport", this._createReportHandler);
+      });
       
       // Initialize the signer
       this._initializeSigner = Secp256k1Keypair.import(options.signingKey).then(keypair => {
@@ -108,23 +367,58 @@ export class LabelerServer {
   }
   
   /**
-  * Establishes a connection to the MongoDB instance.
+  * Registers a hook run at a stage of a label's lifecycle.
+  *
+  * `beforeCreate` hooks may return replacement data for the label, or `false` to
+  * veto it, which fails it with an authorization error.
+  *
+  * @param name - The lifecycle stage to run the hook at.
+  * @param hook - The hook.
+  * @returns A function that removes the hook.
+  */
+  on<K extends LabelHookName>(name: K, hook: LabelHookMap[K]): () => void {
+    return this._hooks.on(name, hook);
+  }
+  
+  /**
+  * Removes a hook registered with {@link LabelerServer.on}.
+  * @param name - The lifecycle stage the hook was registered for.
+  * @param hook - The hook.
+  */
+  off<K extends LabelHookName>(name: K, hook: LabelHookMap[K]): void {
+    this._hooks.off(name, hook);
+  }
+  
+  /**
+  * Establishes a connection to the label store.
   *
   * This method should be called before performing any database operations
   * to ensure that the database connection is properly established.
   *
+  * With MongoDB, a database without labels is marked as migrated to the latest version.
+  * Otherwise, timestamps still stored as ISO strings are converted to BSON dates, since
+  * queries only match labels stored with dates, and pending migrations are logged as a
+  * warning. The conversion leaves signatures valid and takes no lock, so several
+  * instances can connect at once.
+  *
   * @throws {LabelerServerError} If the connection attempt fails
   */
   async connect(): Promise<void> {
     try {
       await this.db.connect();
+      await this._definitions?.init();
+      await this._events?.init();
+      await this._reports?.init();
+      await this._cases?.init();
+      await this._webhooks?.init();
+      await this._checkMigrations();
     } catch (error) {
       throw new LabelerServerError(`Failed to connect to database: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
   
   /**
-  * Close the connection to the MongoDB instance.
+  * Close the connection to the label store.
   *
   * This method should be called when the LabelerServer is no longer needed.
   * @throws {LabelerServerError} If closing the connection fails
@@ -147,14 +441,71 @@ export class LabelerServer {
     }
   }
   
+  /**
+  * Start listening for XRPC requests, sweeping expired labels if the
+  * `expirySweep` option is set, and delivering webhooks if the `webhooks` option is set.
+  *
+  * With the `changeStream` option, the labels collection is tailed before the server
+  * starts listening, so subscribers receive labels stored by every instance.
+  *
+  * The database connection must be established with {@link LabelerServer.connect}
+  * before requests can be served.
+  *
+  * @param port - The port to listen on. Defaults to the `port` option, or 4100.
+  * @returns A promise that resolves to the address the server is listening on.
+  * @throws {LabelerServerError} If the server fails to start
+  */
+  async start(port: number = this._port): Promise<string> {
+    try {
+      await this.getInitializationPromise();
+      await this._fanout?.start();
+      const address = await this._app.listen({ port });
+      if (this._sweepExpiredLabels) {
+        this._expirySweeper.start();
+      }
+      this._webhooks?.start();
+      return address;
+    } catch (error) {
+      throw new LabelerServerError(
+        "Failed to start server",
+        error instanceof Error ? error : new Error(String(error)),
+      );
+    }
+  }
+  
+  /**
+  * Stop listening for XRPC requests, sweeping expired labels and delivering webhooks.
+  *
+  * Open `subscribeLabels` connections are closed. This does not close the database
+  * connection; call {@link LabelerServer.close} for that.
+  * @throws {LabelerServerError} If stopping the server fails
+  */
+  async stop(): Promise<void> {
+    try {
+      await this._expirySweeper.stop();
+      await this._webhooks?.stop();
+      await this._fanout?.stop();
+      await this._app.close();
+      this._subscribers.clear();
+    } catch (error) {
+      throw new LabelerServerError(
+        "Failed to stop server",
+        error instanceof Error ? error : new Error(String(error)),
+      );
+    }
+  }
+  
   /**
   * Signs a label using the server's signing key.
+  *
+  * The signature covers the DAG-CBOR encoding of the label without its `sig`,
+  * as required by the AT Protocol label specification.
   */
   private async _signLabel(unsignedLabel: UnsignedLabel): Promise<SignedLabel> {
     try {
       await this.getInitializationPromise();
-      const sig = await this._signer.sign(Buffer.from(JSON.stringify(unsignedLabel)));
-      return { ...unsignedLabel, sig: new Uint8Array(sig) };
+      const sig = await this._signer.sign(encodeLabelCbor(unsignedLabel));
+      return { ...formatLabelCbor(unsignedLabel), sig: new Uint8Array(sig) };
     } catch (error) {
       throw new LabelerServerError(
         "Failed to sign label",
@@ -163,6 +514,88 @@ export class LabelerServer {
     }
   }
   
+  /**
+  * Validates label data and builds the unsigned label to sign.
+  *
+  * The creation timestamp defaults to now, and the source to the server's DID.
+  *
+  * @throws {AtProtocolValidationError} If the data is invalid
+  */
+  private async _prepareLabel(data: CreateLabelData, allowExpired: boolean): Promise<UnsignedLabel> {
+    // Validate version
+    if (data.ver !== 1) {
+      throw new AtProtocolValidationError("Label validation failed: Label version must be 1");
+    }
+
+    // Validate label value
+    validateVal(data.val);
+    
+    if (
+      data.idempotencyKey !== undefined
+      && (typeof data.idempotencyKey !== "string"
+        || !data.idempotencyKey
+        || data.idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH)
+    ) {
+      throw new AtProtocolValidationError(
+        `Idempotency key must be a string of 1 to ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`,
+      );
+    }
+    
+    // Only declared values may be applied; negations are always allowed so
+    // labels can still be retracted after their value is removed
+    if (this._enforceLabelDefinitions && !data.neg && !(await this.definitions.isDeclared(data.val))) {
+      throw new AtProtocolValidationError(`Label value "${data.val}" is not declared in the label definitions`);
+    }
+    
+    // Validate URI
+    validateUri(data.uri);
+    
+    // Validate URI and CID relationship
+    if (data.uri.startsWith('did:')) {
+      if (data.cid) {
+        throw new AtProtocolValidationError("CID cannot be provided for DID URIs");
+      }
+    } else if (data.uri.startsWith('at://')) {
+      if (data.cid) {
+        validateCid(data.cid);
+      } else {
+        console.warn(
+          'Warning: Creating a label for an at:// URI without a CID. ' +
+          'Best practice is to include a CID for content-specific labels to reference a specific version. ' +
+          'The client should obtain the appropriate CID for the content being labeled.'
+        );
+      }
+    } else {
+      throw new AtProtocolValidationError("URI must start with either \"did:\" or \"at://\"");
+    }
+    
+    // Validate source DID if provided
+    if (data.src) {
+      validateDid(data.src);
+    }
+    
+    // Generate current timestamp if not provided
+    const cts = data.cts ?? new Date().toISOString();
+    // Validate timestamps
+    validateCts(cts);
+    if (data.exp) {
+      validateExp(data.exp, allowExpired);
+    }
+    
+    // Sign timestamps in the same normalized form they are stored in, so the
+    // stored label still verifies against its signature
+    return {
+      ver: 1,
+      val: data.val,
+      uri: data.uri,
+      ...(data.cid ? { cid: data.cid } : {}),
+      ...(data.neg ? { neg: true } : {}),
+      exp: data.exp ? new Date(data.exp).toISOString() : undefined,
+      cts: new Date(cts).toISOString(),
+      src: data.src ?? this.did,
+    };
+  }
+  
   /**
   * Creates a new signed label using the provided data.
   *
@@ -170,123 +603,251 @@ export class LabelerServer {
   * the source set to the provided source or the server's DID. It then signs
   * the label using the server's signing key and saves it to the database.
   *
+  * When `data.idempotencyKey` is already stored with the same label, the stored label
+  * is returned instead, and nothing is saved, logged or emitted. This makes retried
+  * calls safe.
+  *
   * @param data - The data required to create a label.
   * @param allowExpired - Whether to allow expired timestamps
+  * @param context - The moderator creating the label and why, recorded in the moderation event log.
   * @returns A promise that resolves to the signed label.
-  * @throws {LabelerServerError} If validation fails or label creation fails
+  * @throws {LabelerServerError} If validation fails, a `beforeCreate` hook vetoes the label,
+  * the idempotency key is stored with a different label, or label creation fails
   */
-  async createLabel(data: CreateLabelData, allowExpired: boolean = false): Promise<SignedLabel> {
+  async createLabel(
+    data: CreateLabelData,
+    allowExpired: boolean = false,
+    context: ModerationContext = {},
+  ): Promise<SignedLabel> {
     try {
       await this.getInitializationPromise();
       
-      // Validate version
-      if (data.ver !== 1) {
-        throw new AtProtocolValidationError("Label validation failed: Label version must be 1");
-      }
-
-      // Validate label value
-      validateVal(data.val);
-      
-      // Validate URI
-      validateUri(data.uri);
+      validateModerationContext(context);
+      data = await this._beforeCreate(data, context);
+      const unsignedLabel = await this._prepareLabel(data, allowExpired);
+      this._authorize(context, data.neg ? "negate" : "apply", data);
       
-      // Validate URI and CID relationship
-      if (data.uri.startsWith('did:')) {
-        if (data.cid) {
-          throw new AtProtocolValidationError("CID cannot be provided for DID URIs");
-        }
-      } else if (data.uri.startsWith('at://')) {
-        if (data.cid) {
-          validateCid(data.cid);
-        } else {
-          console.warn(
-            'Warning: Creating a label for an at:// URI without a CID. ' +
-            'Best practice is to include a CID for content-specific labels to reference a specific version. ' +
-            'The client should obtain the appropriate CID for the content being labeled.'
-          );
+      const { idempotencyKey } = data;
+      if (idempotencyKey !== undefined) {
+        const stored = await this._findIdempotentLabel(unsignedLabel, idempotencyKey);
+        if (stored) {
+          return toSignedLabel(stored);
         }
-      } else {
-        throw new AtProtocolValidationError("URI must start with either \"did:\" or \"at://\"");
-      }
-      
-      // Validate source DID if provided
-      if (data.src) {
-        validateDid(data.src);
-      }
-      
-      // Generate current timestamp if not provided
-      const cts = data.cts ?? new Date().toISOString();
-      // Validate timestamps
-      validateCts(cts);
-      if (data.exp) {
-        validateExp(data.exp, allowExpired);
       }
       
-      const unsignedLabel: UnsignedLabel = {
-        ver: 1,
-        val: data.val,
-        uri: data.uri,
-        ...(data.cid ? { cid: data.cid } : {}),
-        ...(data.neg ? { neg: true } : {}),
-        exp: data.exp,
-        cts,
-        src: data.src ?? this.did,
-      };
-      
       // Sign the label
       const signedLabel = await this._signLabel(unsignedLabel);
-      const savedLabel: SavedLabel = {
-        ...unsignedLabel,
-        sig: signedLabel.sig,
-        // eslint-disable-next-line @typescript-eslint/naming-convention
-        _id: new ObjectId(),
-      };
       
-      await this.db.saveLabel(savedLabel);
+      let storedLabel: SavedLabel;
+      try {
+        storedLabel = await this.db.saveLabel(
+          idempotencyKey === undefined ? signedLabel : { ...signedLabel, idempotencyKey },
+        );
+      } catch (error) {
+        // A concurrent call with the same key saved its label first
+        const stored = error instanceof DuplicateIdempotencyKeyError
+          ? await this._findIdempotentLabel(unsignedLabel, error.idempotencyKey)
+          : null;
+        if (!stored) {
+          throw error;
+        }
+        return toSignedLabel(stored);
+      }
+      // Published before anything else is awaited, so labels go out in the order they are saved
+      this._emitLabel(storedLabel);
+      await this._recordEvents([storedLabel], context);
+      await this._hooks.after("afterCreate", [storedLabel], context);
       
       return signedLabel;
     } catch (error) {
       if (error instanceof AtProtocolValidationError) {
-        throw new LabelerServerError(`Label validation failed: ${error.message}`, error);
+        await this._hooks.validationError(error, data, context);
       }
+      throw toCreateLabelError(error);
+    }
+  }
+  
+  /**
+  * Creates a batch of signed labels.
+  *
+  * Every label is validated first; labels that fail validation or signing are
+  * reported in the result without aborting the rest of the batch. The remaining
+  * labels are signed in parallel and saved together, taking consecutive sequence
+  * numbers in batch order.
+  *
+  * Labels whose idempotency key is already stored, or repeats a key earlier in the
+  * batch, resolve to the stored label, like in {@link LabelerServer.createLabel}.
+  *
+  * @param data - The data of each label to create.
+  * @param options - Whether to allow expired timestamps, and whether saving stops
+  * at the first label that fails to save.
+  * @param context - The moderator creating the labels and why, recorded in the moderation event log.
+  * @returns A promise that resolves to the created labels and the errors, by index.
+  * @throws {LabelerServerError} If the server is not initialized or the batch cannot be saved,
+  * or if the moderation events of the stored labels cannot be recorded
+  */
+  async createLabels(
+    data: CreateLabelData[],
+    options: CreateLabelsOptions = {},
+    context: ModerationContext = {},
+  ): Promise<CreateLabelsResult> {
+    try {
+      await this.getInitializationPromise();
+      validateModerationContext(context);
+    } catch (error) {
+      throw toCreateLabelError(error);
+    }
+    
+    const errors: CreateLabelsResult["errors"] = [];
+    const labels: CreateLabelsResult["labels"] = [];
+    const signed = await Promise.all(data.map(async (item, index) => {
+      try {
+        item = await this._beforeCreate(item, context);
+        const unsignedLabel = await this._prepareLabel(item, options.allowExpired ?? false);
+        this._authorize(context, item.neg ? "negate" : "apply", item);
+        const { idempotencyKey } = item;
+        if (idempotencyKey !== undefined) {
+          const stored = await this._findIdempotentLabel(unsignedLabel, idempotencyKey);
+          if (stored) {
+            labels.push({ index, label: toSignedLabel(stored), seq: stored.seq });
+            return undefined;
+          }
+        }
+        return { index, unsignedLabel, idempotencyKey, label: await this._signLabel(unsignedLabel) };
+      } catch (error) {
+        if (error instanceof AtProtocolValidationError) {
+          await this._hooks.validationError(error, item, context);
+        }
+        errors.push({ index, error: toCreateLabelError(error) });
+        return undefined;
+      }
+    }));
+    
+    // Labels repeating a key are looked up once the batch is saved
+    const keys = new Set<string>();
+    const repeated: Array<{ index: number; unsignedLabel: UnsignedLabel; idempotencyKey: string }> = [];
+    const valid = signed.filter((item) => item !== undefined).filter((item) => {
+      if (item.idempotencyKey === undefined) {
+        return true;
+      }
+      if (keys.has(item.idempotencyKey)) {
+        repeated.push({ ...item, idempotencyKey: item.idempotencyKey });
+        return false;
+      }
+      keys.add(item.idempotencyKey);
+      return true;
+    });
+    
+    let saved: SaveLabelsResult;
+    try {
+      saved = await this.db.saveLabels(
+        valid.map(({ label, idempotencyKey }) => (idempotencyKey === undefined ? label : { ...label, idempotencyKey })),
+        { ordered: options.ordered ?? true },
+      );
+    } catch (error) {
       throw new LabelerServerError(
-        "Failed to create label",
+        "Failed to create labels",
         error instanceof Error ? error : new Error(String(error)),
       );
     }
+    
+    for (const { index, label } of saved.saved) {
+      this._emitLabel(label);
+      labels.push({ index: valid[index].index, label: valid[index].label, seq: label.seq });
+    }
+    for (const { index, error } of saved.errors) {
+      if (error instanceof DuplicateIdempotencyKeyError) {
+        repeated.push({ ...valid[index], idempotencyKey: error.idempotencyKey });
+      } else {
+        errors.push({ index: valid[index].index, error: toCreateLabelError(error) });
+      }
+    }
+    for (const { index, unsignedLabel, idempotencyKey } of repeated) {
+      try {
+        const stored = await this._findIdempotentLabel(unsignedLabel, idempotencyKey);
+        if (!stored) {
+          throw new Error(`No label was saved with idempotency key "${idempotencyKey}"`);
+        }
+        labels.push({ index, label: toSignedLabel(stored), seq: stored.seq });
+      } catch (error) {
+        errors.push({ index, error: toCreateLabelError(error) });
+      }
+    }
+    labels.sort((a, b) => a.index - b.index);
+    errors.sort((a, b) => a.index - b.index);
+    
+    // The labels are stored and emitted by now, so after hooks run even if the event log fails
+    const stored = saved.saved.map(({ label }) => label);
+    let eventError: unknown;
+    try {
+      await this._recordEvents(stored, context);
+    } catch (error) {
+      eventError = error;
+    }
+    await this._hooks.after("afterCreate", stored, context);
+    if (eventError !== undefined) {
+      throw new LabelerServerError(
+        "Failed to record moderation events for the created labels",
+        eventError instanceof Error ? eventError : new Error(String(eventError)),
+      );
+    }
+    
+    return { labels, errors };
   }
   
   /**
-  * Query all labels from the database.
+  * Query a page of the labels stored in the database, in sequence order.
   *
-  * @param query - Optional query parameters
-  * @returns A promise that resolves to an array of signed labels
-  * @throws {LabelerServerError} If the query operation fails
+  * Filters are translated into a MongoDB query on the indexed label fields. URI
+  * patterns are matched exactly unless they end in `*`, in which case they match
+  * every subject starting with the preceding prefix.
+  *
+  * Pages are ordered by sequence number, which never changes once a label is
+  * stored, so labels inserted while paging do not shift the pages already read.
+  * The returned cursor is opaque and only valid for the filters it was issued for.
+  *
+  * @param query - Filters the labels must match, the page size and the cursor of
+  * the previous page. Every label is matched when no filter is given.
+  * @returns A promise that resolves to the page of signed labels and the cursor of the next page
+  * @throws {LabelerServerError} If a filter, the limit or the cursor is invalid, or the query
+  * operation fails
   */
-  async queryLabels(query?: { exp?: string; allowExpired?: boolean }): Promise<SignedLabel[]> {
+  async queryLabels(query: QueryLabelsOptions = {}): Promise<QueryLabelsResult> {
     try {
       await this.getInitializationPromise();
       // Validate expiration timestamp if present
-      if (query?.exp) {
+      if (query.exp) {
         validateExp(query.exp, query.allowExpired);
       }
       
-      const labels = await this.db.findLabels(query || {});
+      const limit = query.limit ?? DEFAULT_QUERY_LIMIT;
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_QUERY_LIMIT) {
+        throw new AtProtocolValidationError(`Limit must be an integer between 1 and ${MAX_QUERY_LIMIT}`);
+      }
+      
+      const filter = queryLabelsToFilter(query);
+      const fingerprint = queryLabelsFingerprint(query);
+      const after = query.cursor === undefined ? undefined : decodeQueryCursor(query.cursor, fingerprint);
+      
+      const labels = await this.db.findLabels(
+        {
+          ...(after === undefined ? filter : { $and: [filter, { seq: { $gt: after } }] }),
+          allowExpired: query.allowExpired,
+        },
+        { sort: { seq: 1 }, limit },
+      );
       
       if (!Array.isArray(labels)) {
         throw new Error("Invalid response from database");
       }
       
-      // Filter out expired labels if allowExpired is not true
-      const filteredLabels = !query?.allowExpired
-      ? labels.filter(label => !label.exp || new Date(label.exp) > new Date())
-      : labels;
-      
-      // Convert ArrayBuffer to Uint8Array for the signature
-      return filteredLabels.map(label => ({
-        ...label,
-        sig: new Uint8Array(label.sig)
-      }));
+      const last = labels.at(-1);
+      return {
+        labels: labels.map(label => toSignedLabel(label)),
+        ...(last
+          ? { cursor: encodeQueryCursor(last.seq, fingerprint) }
+          : query.cursor !== undefined ? { cursor: query.cursor } : {}),
+      };
     } catch (error) {
       if (error instanceof AtProtocolValidationError) {
         throw new LabelerServerError(`Label validation failed: ${error.message}`, error);
@@ -298,6 +859,38 @@ export class LabelerServer {
     }
   }
   
+  /**
+  * Resolve the labels that currently apply to a subject.
+  *
+  * Unlike {@link LabelerServer.queryLabels}, which returns the raw label history,
+  * this keeps only the latest label for each source and value, and leaves out
+  * values that have since been negated or have expired.
+  *
+  * @param uri - The subject URI.
+  * @param options.src - Only consider labels from this source DID.
+  * @returns A promise that resolves to the effective labels, in sequence order.
+  * @throws {LabelerServerError} If validation or the query fails
+  */
+  async getActiveLabels(uri: string, options: ActiveLabelOptions = {}): Promise<SignedLabel[]> {
+    try {
+      validateUri(uri);
+      if (options.src) {
+        validateDid(options.src);
+      }
+      
+      const labels = await this.db.getActiveLabels(uri, options);
+      return labels.map(toSignedLabel);
+    } catch (error) {
+      if (error instanceof AtProtocolValidationError) {
+        throw new LabelerServerError(`Label validation failed: ${error.message}`, error);
+      }
+      throw new LabelerServerError(
+        "Failed to get active labels",
+        error instanceof Error ? error : new Error(String(error)),
+      );
+    }
+  }
+  
   /**
   * Query a specific label from the database by its ID.
   *
@@ -332,26 +925,33 @@ export class LabelerServer {
   *
   * This function first queries the label from the database to verify its existence.
   * If the label exists, it creates a new label with the same properties as the original,
-  * but sets the neg field to true. It then signs the new label and saves it to the
-  * database. If the label does not exist, the function does nothing.
+  * but sets the neg field to true, the creation timestamp to now and no expiration. It
+  * then signs the new label and saves it to the database. If the label does not exist,
+  * the function does nothing.
   *
   * @param id - The ID of the label to delete.
+  * @param context - The moderator negating the label and why, recorded in the moderation event log.
   * @returns A promise that resolves to the signed label with negation if successful, or null if not found.
   * @throws {LabelerServerError} If the deletion operation fails
   */
-  async deleteLabel(id: ObjectId): Promise<SignedLabel | null> {
+  async deleteLabel(id: ObjectId, context: ModerationContext = {}): Promise<SignedLabel | null> {
     try {
       await this.getInitializationPromise();
+      validateModerationContext(context);
       // eslint-disable-next-line @typescript-eslint/naming-convention
       const label = await this.db.findOne({ _id: id });
       
       if (!label) {
         return null;
       }
+      this._authorize(context, "negate", { val: label.val, uri: label.uri });
       
+      // The negation is created now and never expires, so it outlives the label it negates
       const unsignedLabel: UnsignedLabel = {
         ...label,
         neg: true,
+        cts: new Date().toISOString(),
+        exp: undefined,
       };
       
       let signedLabel: SignedLabel;
@@ -365,27 +965,27 @@ export class LabelerServer {
         );
       }
 
-      const savedLabel: SavedLabel = {
-        ...unsignedLabel,
-        sig: signedLabel.sig,
-        // eslint-disable-next-line @typescript-eslint/naming-convention
-        _id: new ObjectId(),
-      };
-      
+      let storedLabel: SavedLabel;
       try {
-        await this.db.saveLabel(savedLabel);
+        storedLabel = await this.db.saveLabel(signedLabel);
       } catch (error) {
         throw new LabelerServerError(
           `Failed to save negated label to database: ${error instanceof Error ? error.message : String(error)}`,
           error instanceof Error ? error : new Error(String(error))
         );
       }
+      this._emitLabel(storedLabel);
+      await this._recordEvents([storedLabel], context, "negate");
+      await this._hooks.after("afterNegate", [storedLabel], context);
       
       return signedLabel;
     } catch (error) {
       if (error instanceof LabelerServerError) {
         throw error;
       }
+      if (error instanceof AuthorizationError) {
+        throw new LabelerServerError(`Label authorization failed: ${error.message}`, error);
+      }
       throw new LabelerServerError(
         "Failed to delete label",
         error instanceof Error ? error : new Error(String(error)),
@@ -404,11 +1004,18 @@ export class LabelerServer {
   *
   * @param id - The ID of the label to reverse the negation of.
   * @param save - Whether to save the new label to the database. Defaults to false.
+  * @param context - The moderator reversing the negation and why, recorded in the moderation
+  * event log when the label is saved.
   * @returns A promise that resolves to the signed label with the reversed negation if
   * the label exists, or null if not.
   */
-  async reverseLabelNegation(id: ObjectId, save = false): Promise<SignedLabel | null> {
+  async reverseLabelNegation(
+    id: ObjectId,
+    save = false,
+    context: ModerationContext = {},
+  ): Promise<SignedLabel | null> {
     try {
+      validateModerationContext(context);
       // eslint-disable-next-line @typescript-eslint/naming-convention
       const labels = await this.db.findLabels({ _id: id });
       if (!Array.isArray(labels) || labels.length === 0) {
@@ -416,6 +1023,7 @@ export class LabelerServer {
       }
       
       const label = labels[0];
+      this._authorize(context, label.neg ? "apply" : "negate", { val: label.val, uri: label.uri });
       const unsignedLabel: UnsignedLabel = {
         ...label,
         neg: !label.neg,
@@ -424,17 +1032,16 @@ export class LabelerServer {
       // Sign the label
       const signedLabel = await this._signLabel(unsignedLabel);
       if (save) {
-        const savedLabel: SavedLabel = {
-          ...unsignedLabel,
-          sig: signedLabel.sig,
-          // eslint-disable-next-line @typescript-eslint/naming-convention
-          _id: new ObjectId(),
-        };
-        await this.db.updateLabel(id, savedLabel);
+        await this.db.updateLabel(id, signedLabel);
+        await this._recordEvents([label], context, "reverseNegation");
+        await this._hooks.after("afterReverse", [{ ...label, ...signedLabel }], context);
       }
       
       return signedLabel;
     } catch (error) {
+      if (error instanceof AuthorizationError) {
+        throw new LabelerServerError(`Label authorization failed: ${error.message}`, error);
+      }
       throw new LabelerServerError(
         "Failed to reverse label negation",
         error instanceof Error ? error : new Error(String(error)),
@@ -443,22 +1050,151 @@ export class LabelerServer {
   }
   
   /**
-  * Retrieve a limited number of labels from the database that have an ID greater than the specified cursor.
+  * Re-signs every stored label over its canonical DAG-CBOR encoding.
+  *
+  * Labels created before signatures moved to DAG-CBOR were signed over their JSON
+  * serialization, which no AT Protocol consumer can verify. Signing is deterministic,
+  * so labels that already carry a valid signature are left unchanged and the
+  * migration can safely be run more than once.
+  *
+  * @param batchSize - The number of labels to load from the database at a time.
+  * @returns A promise that resolves to the number of labels whose signature changed.
+  * @throws {LabelerServerError} If signing or updating a label fails
+  */
+  async resignLabels(batchSize: number = REPLAY_BATCH_SIZE): Promise<number> {
+    try {
+      await this.getInitializationPromise();
+      
+      let resigned = 0;
+      for await (const label of this._scanLabels(FIRST_CURSOR, batchSize)) {
+        const storedLabel = toSignedLabel(label);
+        const signedLabel = await this._signLabel(storedLabel);
+        if (Buffer.compare(signedLabel.sig, storedLabel.sig) !== 0) {
+          await this.db.updateLabel(label._id, signedLabel);
+          resigned++;
+        }
+      }
+      
+      return resigned;
+    } catch (error) {
+      throw new LabelerServerError(
+        "Failed to re-sign labels",
+        error instanceof Error ? error : new Error(String(error)),
+      );
+    }
+  }
+  
+  /**
+  * Audits the signatures of every stored label.
+  *
+  * By default labels are verified against the server's current signing key. A
+  * different key can be given as a raw secp256k1 public key, a `did:key`, or any
+  * other DID, whose `#atproto_label` key is looked up through the `didResolver` option.
+  *
+  * @param options.key - The key or DID to verify against. Defaults to the current signer.
+  * @param options.batchSize - The number of labels to load from the database at a time.
+  * @returns A promise that resolves to a report of the labels that failed verification.
+  * @throws {LabelerServerError} If the key cannot be resolved or the audit fails
+  */
+  async verifyStoredLabels(
+    options: { key?: string | Uint8Array; batchSize?: number } = {},
+  ): Promise<LabelVerificationReport> {
+    try {
+      await this.getInitializationPromise();
+      
+      let key: string;
+      if (options.key === undefined) {
+        key = this._signer.did();
+      } else if (typeof options.key === "string") {
+        key = await resolveLabelerKey(options.key, this._didResolver);
+      } else {
+        key = publicKeyToDidKey(options.key);
+      }
+      
+      const batchSize = options.batchSize ?? REPLAY_BATCH_SIZE;
+      const report: LabelVerificationReport = { key, checked: 0, invalid: [] };
+      for await (const label of this._scanLabels(FIRST_CURSOR, batchSize)) {
+        const signedLabel = toSignedLabel(label);
+        report.checked++;
+        if (!(await verifyLabel(signedLabel, key))) {
+          report.invalid.push({ id: label._id, label: signedLabel });
+        }
+      }
+      
+      return report;
+    } catch (error) {
+      throw new LabelerServerError(
+        "Failed to verify stored labels",
+        error instanceof Error ? error : new Error(String(error)),
+      );
+    }
+  }
+  
+  /**
+  * Compare the labels collection with the indexes and `$jsonSchema` validator the
+  * labeler expects, counting the stored labels that don't match the schema.
+  *
+  * The missing indexes and the validator are ensured on `connect`; this reports what
+  * is left, such as conflicting or unused indexes on existing deployments.
   *
-  * @param cursor - The ID after which labels should be retrieved.
+  * @returns A promise that resolves to the drift report.
+  * @throws {LabelerServerError} If the labels are not stored in MongoDB, or the check fails
+  */
+  async checkSchema(): Promise<SchemaDriftReport> {
+    if (!(this._db instanceof MongoDBClient)) {
+      throw new LabelerServerError("Schema checks require a MongoDB label store");
+    }
+    try {
+      await this.getInitializationPromise();
+      return await this._db.checkSchema();
+    } catch (error) {
+      throw new LabelerServerError(
+        "Failed to check label schema",
+        error instanceof Error ? error : new Error(String(error)),
+      );
+    }
+  }
+  
+  /**
+  * Migrate the stored labels to the current storage format, or to another version.
+  *
+  * Applied migrations are recorded in the `migrations` collection, and a lock keeps
+  * other instances from migrating at the same time. Migrations are not run on `connect`,
+  * so that deployments decide when to rewrite their labels. Labels whose signed fields
+  * a migration changes are re-signed with the server's signing key.
+  *
+  * @param to The version to migrate to. Defaults to the latest version; 0 reverts every migration.
+  * @returns A promise that resolves to the versions applied and reverted.
+  * @throws {LabelerServerError} If the labels are not stored in MongoDB, or the migration fails
+  */
+  async migrate(to?: number): Promise<MigrationResult> {
+    const migrations = this.migrations;
+    try {
+      await this.getInitializationPromise();
+      return await migrations.migrate(to);
+    } catch (error) {
+      throw new LabelerServerError(
+        "Failed to migrate labels",
+        error instanceof Error ? error : new Error(String(error)),
+      );
+    }
+  }
+  
+  /**
+  * Retrieve a limited number of labels from the database that have a sequence number greater than the specified cursor.
+  *
+  * @param cursor - The sequence number after which labels should be retrieved.
   * @param limit - The maximum number of labels to return.
-  * @returns A promise that resolves to an array of labels with IDs greater than the cursor.
+  * @returns A promise that resolves to an array of labels with sequence numbers greater than the cursor.
   * @throws {LabelerServerError} If the query operation fails
   */
-  async getLabelsAfterCursor(cursor: ObjectId, limit: number): Promise<SignedLabel[]> {
+  async getLabelsAfterCursor(cursor: number, limit: number): Promise<SignedLabel[]> {
     try {
       await this.getInitializationPromise();
       
       const labels = await this.db.findLabels(
-        // eslint-disable-next-line @typescript-eslint/naming-convention
-        { _id: { $gt: cursor } },
-        // eslint-disable-next-line @typescript-eslint/naming-convention
-        { limit, sort: { _id: 1 } }
+        { seq: { $gt: cursor } },
+        { limit, sort: { seq: 1 } }
       );
       
       if (!Array.isArray(labels)) {
@@ -477,4 +1213,611 @@ export class LabelerServer {
       );
     }
   }
+  
+  /**
+  * Handler for `com.atproto.label.queryLabels`.
+  *
+  * Supports exact and trailing-`*` prefix `uriPatterns`, `sources` filtering by
+  * label source DID, and `limit`/`cursor` pagination ordered by sequence number,
+  * through {@link LabelerServer.queryLabels}.
+  */
+  private _queryLabelsHandler: QueryHandler<{
+    uriPatterns?: string | string[];
+    sources?: string | string[];
+    limit?: string;
+    cursor?: string;
+  }> = async (req, res) => {
+    // The range is checked by queryLabels
+    if (req.query.limit !== undefined && !/^\d+$/.test(req.query.limit)) {
+      throw new XRPCError(400, "InvalidRequest", `Limit must be an integer between 1 and ${MAX_QUERY_LIMIT}`);
+    }
+    
+    let page: QueryLabelsResult;
+    try {
+      page = await this.queryLabels({
+        uriPatterns: toArray(req.query.uriPatterns),
+        sources: toArray(req.query.sources) as Array<`did:${string}`>,
+        ...(req.query.limit !== undefined ? { limit: Number(req.query.limit) } : {}),
+        ...(req.query.cursor ? { cursor: req.query.cursor } : {}),
+      });
+    } catch (error) {
+      if (error instanceof LabelerServerError && error.cause instanceof AtProtocolValidationError) {
+        throw new XRPCError(400, "InvalidRequest", error.cause.message);
+      }
+      throw error;
+    }
+    
+    const labels: FormattedLabel[] = page.labels.map(label => formatLabel(label));
+    await res.send({ ...(page.cursor ? { cursor: page.cursor } : {}), labels });
+  };
+  
+  /**
+  * Handler for `com.atproto.label.subscribeLabels`.
+  *
+  * If a `cursor` is provided, every label stored after it is replayed before the
+  * subscriber starts receiving live labels. A cursor older than the oldest stored
+  * label gets an `OutdatedCursor` info frame and a full replay; a cursor newer than
+  * the latest stored label gets a `FutureCursor` error and the connection is closed.
+  */
+  private _subscribeLabelsHandler: SubscriptionHandler<{ cursor?: string }> = async (ws, req) => {
+    const subscriber: LabelSubscriber = { socket: ws };
+    ws.on("close", () => this._subscribers.delete(subscriber));
+    
+    const cursorParam = req.query.cursor;
+    if (cursorParam === undefined) {
+      this._subscribers.add(subscriber);
+      return;
+    }
+    
+    let cursor = parseCursor(cursorParam);
+    if (cursor === undefined) {
+      ws.send(frameToBytes("error", { error: "InvalidRequest", message: "Cursor must be a non-negative integer" }));
+      ws.close();
+      return;
+    }
+    
+    // Buffer live labels until the replay has caught up
+    subscriber.pending = [];
+    this._subscribers.add(subscriber);
+    
+    try {
+      const latest = await this.db.findLabels({ allowExpired: true }, { sort: { seq: -1 }, limit: 1 });
+      const latestSeq = latest.length ? latest[0].seq : FIRST_CURSOR;
+      if (cursor > latestSeq) {
+        ws.send(frameToBytes("error", { error: "FutureCursor", message: "Cursor is in the future" }));
+        ws.close();
+        this._subscribers.delete(subscriber);
+        return;
+      }
+      
+      const oldest = await this.db.findLabels({ allowExpired: true }, { sort: { seq: 1 }, limit: 1 });
+      if (oldest.length && cursor < oldest[0].seq - 1) {
+        ws.send(frameToBytes("message", {
+          name: "OutdatedCursor",
+          message: "Requested cursor exceeded limit. Possibly missing events",
+        }, "#info"));
+      }
+      
+      for await (const label of this._scanLabels(cursor, REPLAY_BATCH_SIZE)) {
+        this._sendLabel(subscriber, label);
+        cursor = label.seq;
+      }
+      
+      const pending = subscriber.pending;
+      subscriber.pending = undefined;
+      for (const label of pending) {
+        if (label.seq > cursor) {
+          this._sendLabel(subscriber, label);
+        }
+      }
+    } catch (error) {
+      console.error("Failed to replay labels to subscriber:", error);
+      ws.send(frameToBytes("error", { error: "InternalServerError", message: "Failed to replay labels" }));
+      ws.close();
+      this._subscribers.delete(subscriber);
+    }
+  };
+  
+  /**
+  * Applies and negates labels on behalf of a moderator authenticated with service auth.
+  *
+  * Only `modEventLabel` events are supported. The moderator is checked against the
+  * authorization policy even when the server does not enforce it for direct calls,
+  * so without a policy only the labeler's own account may emit events.
+  */
+  private _emitEventHandler: ProcedureHandler<Partial<EmitEventInput> | undefined> = async (req, res) => {
+    const actor = await this._verifyServiceAuth(req, "tools.ozone.moderation.emitEvent");
+    const { event, subject, createdBy } = req.body ?? {};
+    
+    if (event?.$type !== "tools.ozone.moderation.defs#modEventLabel") {
+      throw new XRPCError(400, "InvalidRequest", "Only tools.ozone.moderation.defs#modEventLabel events are supported");
+    }
+    if (createdBy !== actor) {
+      throw new XRPCError(400, "InvalidRequest", "createdBy must be the authenticated moderator");
+    }
+    
+    let target: { uri: string; cid?: string };
+    if (subject?.$type === "com.atproto.admin.defs#repoRef") {
+      target = { uri: subject.did };
+    } else if (subject?.$type === "com.atproto.repo.strongRef") {
+      target = { uri: subject.uri, cid: subject.cid };
+    } else {
+      throw new XRPCError(400, "InvalidRequest", "Subject must be a repoRef or a strongRef");
+    }
+    
+    const { durationInHours, createLabelVals = [], negateLabelVals = [] } = event;
+    if (durationInHours !== undefined && !isPositiveNumber(durationInHours)) {
+      throw new XRPCError(400, "InvalidRequest", "durationInHours must be a positive number");
+    }
+    if (!isStringArray(createLabelVals) || !isStringArray(negateLabelVals)) {
+      throw new XRPCError(400, "InvalidRequest", "createLabelVals and negateLabelVals must be arrays of strings");
+    }
+    
+    const exp = durationInHours !== undefined
+      ? new Date(Date.now() + durationInHours * 60 * 60 * 1000).toISOString()
+      : undefined;
+    const items: CreateLabelData[] = [
+      ...createLabelVals.map((val) => ({ ver: 1, val, ...target, ...(exp ? { exp } : {}) })),
+      ...negateLabelVals.map((val) => ({ ver: 1, val, ...target, neg: true })),
+    ];
+    if (!items.length) {
+      throw new XRPCError(400, "InvalidRequest", "The event applies and negates no label values");
+    }
+    
+    // Check the whole event before storing any of its labels
+    for (const item of items) {
+      try {
+        validateVal(item.val);
+        validateUri(item.uri);
+        if (item.cid) {
+          validateCid(item.cid);
+        }
+        this._authorizer.authorize(actor, item.neg ? "negate" : "apply", item);
+      } catch (error) {
+        if (error instanceof AuthorizationError) {
+          throw new XRPCError(403, "Forbidden", error.message);
+        }
+        throw new XRPCError(400, "InvalidRequest", error instanceof Error ? error.message : String(error));
+      }
+    }
+    
+    const result = await this.createLabels(items, {}, { actor, ...(event.comment ? { comment: event.comment } : {}) });
+    if (result.errors.length) {
+      const { error } = result.errors[0];
+      // Hooks may veto or change labels after the checks above
+      if (error instanceof LabelerServerError && error.cause instanceof AuthorizationError) {
+        throw new XRPCError(403, "Forbidden", error.cause.message);
+      }
+      if (error instanceof LabelerServerError && error.cause instanceof AtProtocolValidationError) {
+        throw new XRPCError(400, "InvalidRequest", error.cause.message);
+      }
+      throw error;
+    }
+    
+    await res.send({
+      id: result.labels[result.labels.length - 1].seq,
+      event,
+      subject,
+      subjectBlobCids: [],
+      createdBy: actor,
+      createdAt: new Date().toISOString(),
+    });
+  };
+  
+  /**
+  * Stores a report from a user authenticated with service auth from their PDS.
+  */
+  private _createReportHandler: ProcedureHandler<{
+    reasonType?: string;
+    reason?: string;
+    subject?: ModerationSubject;
+  } | undefined> = async (req, res) => {
+    if (!this._reports) {
+      throw new XRPCError(501, "MethodNotImplemented", "Reports require a MongoDB label store");
+    }
+    const reportedBy = await this._verifyServiceAuth(req, "com.atproto.moderation.createReport");
+    const { reasonType, reason, subject } = req.body ?? {};
+    if (!reasonType || !subject) {
+      throw new XRPCError(400, "InvalidRequest", "A reasonType and a subject are required");
+    }
+    
+    let report: Report;
+    try {
+      report = await this._reports.create({ reasonType, reason, subject, reportedBy });
+    } catch (error) {
+      if (error instanceof AtProtocolValidationError) {
+        throw new XRPCError(400, "InvalidRequest", error.message);
+      }
+      throw error;
+    }
+    
+    await res.send({
+      id: report.id,
+      reasonType: report.reasonType,
+      ...(report.reason ? { reason: report.reason } : {}),
+      subject: report.subject,
+      reportedBy: report.reportedBy,
+      createdAt: report.createdAt,
+    });
+  };
+  
+  /**
+  * Verifies the service auth token of an XRPC request, returning the DID of the caller.
+  * @throws {XRPCError} With status 401 if the token is missing or invalid
+  */
+  private async _verifyServiceAuth(req: FastifyRequest, lxm: string): Promise<`did:${string}`> {
+    const authorization = req.headers.authorization;
+    if (!authorization?.startsWith("Bearer ")) {
+      throw new XRPCError(401, "AuthenticationRequired", "A service auth token is required");
+    }
+    return verifyServiceJwt(authorization.slice("Bearer ".length), {
+      audience: this.did,
+      lxm,
+      resolver: this._didResolver,
+    });
+  }
+  
+  /**
+  * Iterates over every stored label after a cursor in sequence order, including
+  * expired labels, loading them from the database in batches.
+  */
+  private async *_scanLabels(cursor: number, batchSize: number): AsyncGenerator<SavedLabel> {
+    let batch: SavedLabel[];
+    do {
+      batch = await this.db.getLabelsAfterCursor(cursor, batchSize);
+      yield* batch;
+      if (batch.length) {
+        cursor = batch[batch.length - 1].seq;
+      }
+    } while (batch.length === batchSize);
+  }
+  
+  /**
+  * Records every migration as applied when no labels are stored yet, since new labels
+  * are stored in the current format. Otherwise, converts timestamps stored as ISO strings
+  * to dates, since labels with string timestamps are not matched by date queries, and
+  * warns about pending migrations.
+  */
+  private async _checkMigrations(): Promise<void> {
+    if (!this._migrations || !(this._db instanceof MongoDBClient)) {
+      return;
+    }
+    if (!await this.db.findOne({})) {
+      await this._migrations.baseline();
+      return;
+    }
+    const pending = (await this._migrations.status()).filter(({ appliedAt }) => !appliedAt);
+    if (pending.some(({ version }) => version === LABEL_DATES_MIGRATION_VERSION)) {
+      await storeLabelDatesAsDates(this._db);
+    }
+    if (pending.length) {
+      console.warn(
+        `${pending.length} label migration(s) are pending (${pending.map(({ name }) => name).join(", ")}); `
+        + "run LabelerServer.migrate() to bring stored labels to the current format",
+      );
+    }
+  }
+  
+  /**
+  * Finds the label stored with an idempotency key, if any.
+  * @throws {AtProtocolValidationError} If the key is stored with a different label
+  */
+  private async _findIdempotentLabel(label: UnsignedLabel, idempotencyKey: string): Promise<SavedLabel | null> {
+    const stored = await this.db.findOne({ idempotencyKey });
+    if (
+      stored
+      && (stored.src !== label.src || stored.uri !== label.uri || stored.cid !== label.cid
+        || stored.val !== label.val || !!stored.neg !== !!label.neg)
+    ) {
+      throw new AtProtocolValidationError(`Idempotency key "${idempotencyKey}" is already used by a different label`);
+    }
+    return stored;
+  }
+  
+  /**
+  * Runs the `beforeCreate` hooks on the data of a label.
+  * @throws {AuthorizationError} If a hook vetoes the label
+  */
+  private async _beforeCreate(data: CreateLabelData, context: ModerationContext): Promise<CreateLabelData> {
+    const result = await this._hooks.beforeCreate(data, context);
+    if (!result) {
+      throw new AuthorizationError("Label vetoed by a beforeCreate hook", context.actor);
+    }
+    return result;
+  }
+  
+  /**
+  * Ensures the actor of a label operation may perform it, when an authorization policy is set.
+  * @throws {AuthorizationError} If the operation is not allowed
+  */
+  private _authorize(context: ModerationContext, action: LabelAction, label: { val: string; uri: string; src?: string }): void {
+    if (this._enforceAuthorization) {
+      this._authorizer.authorize(context.actor, action, label);
+    }
+  }
+  
+  /**
+  * Records the moderation events behind stored labels, if the event log is available.
+  * The event type defaults to `label`, or `negate` for negation labels.
+  */
+  private async _recordEvents(
+    labels: SavedLabel[],
+    context: ModerationContext,
+    type?: ModerationEventType,
+  ): Promise<void> {
+    await this._events?.record(labels.map((label) => ({
+      type: type ?? (label.neg ? "negate" : "label"),
+      actor: context.actor ?? this.did,
+      subject: { uri: label.uri, ...(label.cid ? { cid: label.cid } : {}) },
+      val: label.val,
+      labelId: label._id,
+      ...(context.comment ? { comment: context.comment } : {}),
+    })));
+  }
+  
+  /**
+  * Pushes a newly stored label to every `subscribeLabels` subscriber, unless labels
+  * reach them through the change stream instead.
+  */
+  private _emitLabel(label: SavedLabel): void {
+    if (!this._fanout) {
+      this._broadcastLabel(label);
+    }
+  }
+  
+  /**
+  * Sends a label to every `subscribeLabels` subscriber, or queues it for those
+  * still replaying.
+  */
+  private _broadcastLabel(label: SavedLabel): void {
+    for (const subscriber of this._subscribers) {
+      if (subscriber.pending) {
+        subscriber.pending.push(label);
+      } else {
+        this._sendLabel(subscriber, label);
+      }
+    }
+  }
+  
+  /**
+  * Sends a label to a subscriber as a `#labels` frame.
+  */
+  private _sendLabel(subscriber: LabelSubscriber, label: SavedLabel): void {
+    if (subscriber.socket.readyState !== subscriber.socket.OPEN) {
+      return;
+    }
+    const labels = [formatLabel(toSignedLabel(label))];
+    subscriber.socket.send(frameToBytes("message", { seq: label.seq, labels }, "#labels"));
+  }
+  
+  /**
+  * Serializes errors thrown by XRPC handlers as `{ error, message }` responses.
+  */
+  private _errorHandler = async (error: FastifyError, _req: FastifyRequest, reply: FastifyReply): Promise<void> => {
+    if (error instanceof XRPCError) {
+      await reply.status(error.status).send({ error: error.error, message: error.message });
+      return;
+    }
+    if (error.statusCode && error.statusCode < 500) {
+      await reply.status(error.statusCode).send({ error: "InvalidRequest", message: error.message });
+      return;
+    }
+    console.error("Unhandled XRPC error:", error);
+    await reply.status(500).send({ error: "InternalServerError", message: "An unknown error occurred" });
+  };
+}
+
+/**
+* Parses a sequence number cursor, returning undefined if it is not a non-negative integer.
+*/
+function parseCursor(cursor: string): number | undefined {
+  if (!/^\d+$/.test(cursor)) {
+    return undefined;
+  }
+  const seq = Number(cursor);
+  return Number.isSafeInteger(seq) ? seq : undefined;
+}
+
+/**
+* Validates the moderator DID of a label operation, if one is given.
+*/
+function validateModerationContext(context: ModerationContext): void {
+  if (context.actor) {
+    validateDid(context.actor);
+  }
+}
+
+/**
+* Wraps an error thrown while creating a label, distinguishing validation failures.
+*/
+function toCreateLabelError(error: unknown): LabelerServerError {
+  if (error instanceof AtProtocolValidationError) {
+    return new LabelerServerError(`Label validation failed: ${error.message}`, error);
+  }
+  if (error instanceof AuthorizationError) {
+    return new LabelerServerError(`Label authorization failed: ${error.message}`, error);
+  }
+  return new LabelerServerError(
+    "Failed to create label",
+    error instanceof Error ? error : new Error(String(error)),
+  );
+}
+
+/**
+* Normalizes a query string parameter that may be repeated into an array.
+*/
+function toArray(value?: string | string[]): string[] {
+  if (!value) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+* Checks that a request body value is a finite number above zero.
+*/
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+/**
+* Checks that a request body value is an array of strings.
+*/
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+/**
+* Translates `queryLabels` filters into a MongoDB filter.
+*
+* @throws {AtProtocolValidationError} If a filter is invalid
+*/
+function queryLabelsToFilter(query: QueryLabelsOptions): Filter<SavedLabel> {
+  const filters: Filter<SavedLabel>[] = [];
+  
+  const uriFilter = uriPatternsToFilter(query.uriPatterns ?? []);
+  if (uriFilter) {
+    filters.push(uriFilter);
+  }
+  if (query.subjectType) {
+    filters.push({ uri: { $regex: query.subjectType === "account" ? /^did:/ : /^at:\/\// } });
+  }
+  
+  if (query.sources?.length) {
+    for (const source of query.sources) {
+      try {
+        validateDid(source);
+      } catch (error) {
+        throw new AtProtocolValidationError(`Invalid source: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    filters.push({ src: { $in: query.sources } });
+  }
+  
+  if (query.vals?.length) {
+    query.vals.forEach(validateVal);
+    filters.push({ val: { $in: query.vals } });
+  }
+  
+  if (query.neg !== undefined) {
+    filters.push({ neg: query.neg ? true : { $ne: true } });
+  }
+  
+  if (query.since || query.until) {
+    const cts: { $gte?: string; $lt?: string } = {};
+    if (query.since) {
+      cts.$gte = toQueryTimestamp(query.since, "since");
+    }
+    if (query.until) {
+      cts.$lt = toQueryTimestamp(query.until, "until");
+    }
+    filters.push({ cts });
+  }
+  
+  if (query.cid) {
+    validateCid(query.cid);
+    filters.push({ cid: query.cid });
+  }
+  
+  if (query.exp) {
+    filters.push({ exp: toQueryTimestamp(query.exp, "exp") });
+  }
+  
+  if (filters.length > 1) {
+    return { $and: filters };
+  }
+  return filters[0] ?? {};
+}
+
+/**
+* Translates `queryLabels` URI patterns into a MongoDB filter.
+*
+* Patterns are matched exactly unless they end in `*`, in which case they match
+* every URI starting with the preceding prefix. A lone `*` matches everything.
+* Patterns are validated as URIs, up to the last full path segment for prefixes.
+* Exact matches and prefixes, which are anchored, can both use the `uri` index.
+*
+* @returns The filter, or undefined if every URI matches.
+* @throws {AtProtocolValidationError} If a pattern is not a valid URI, or a wildcard
+* appears anywhere but at the end of a pattern
+*/
+function uriPatternsToFilter(patterns: string[]): Filter<SavedLabel> | undefined {
+  if (!patterns.length || patterns.includes("*")) {
+    return undefined;
+  }
+  
+  const exact: string[] = [];
+  const prefixes: RegExp[] = [];
+  for (const pattern of patterns) {
+    validateSubjectPattern(pattern);
+    if (pattern.endsWith("*")) {
+      const prefix = pattern.slice(0, -1);
+      validateUri(prefix.replace(/\/$/, ""));
+      prefixes.push(new RegExp(`^${prefix.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}`));
+    } else {
+      exact.push(pattern);
+    }
+  }
+  
+  return {
+    $or: [
+      ...(exact.length ? [{ uri: { $in: exact } }] : []),
+      ...prefixes.map(regex => ({ uri: { $regex: regex } })),
+    ],
+  };
+}
+
+/**
+* Validates a timestamp in a `queryLabels` filter, normalizing it to ISO form in UTC.
+* MongoDBClient converts it to the BSON date timestamps are stored as, while stores
+* keeping timestamps as strings compare it with the UTC form labels are saved with.
+*/
+function toQueryTimestamp(timestamp: string, name: string): string {
+  const date = new Date(timestamp);
+  if (Number.isNaN(date.getTime())) {
+    throw new AtProtocolValidationError(`${name} must be an ISO 8601 timestamp`);
+  }
+  return date.toISOString();
+}
+
+/**
+* Identifies the filters of a `queryLabels` query, leaving out the page size and
+* cursor, so that a cursor can only be used with the filters it was issued for.
+*/
+function queryLabelsFingerprint(query: QueryLabelsOptions): string {
+  const filters = Object.entries(query)
+    .filter(([key, value]) => key !== "limit" && key !== "cursor" && value !== undefined
+      && !(Array.isArray(value) && value.length === 0))
+    .map(([key, value]) => [key, Array.isArray(value) ? [...(value as string[])].sort() : value] as const)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return createHash("sha256").update(JSON.stringify(filters)).digest("base64url").slice(0, 16);
+}
+
+/**
+* Encodes the opaque `queryLabels` cursor pointing after a label.
+*/
+function encodeQueryCursor(seq: number, fingerprint: string): string {
+  return Buffer.from(JSON.stringify({ seq, filters: fingerprint })).toString("base64url");
+}
+
+/**
+* Decodes a `queryLabels` cursor into the sequence number to continue after.
+*
+* @throws {AtProtocolValidationError} If the cursor is malformed or was issued for other filters
+*/
+function decodeQueryCursor(cursor: string, fingerprint: string): number {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new AtProtocolValidationError("Invalid cursor");
+  }
+  const { seq, filters } = (typeof decoded === "object" && decoded !== null ? decoded : {}) as Record<string, unknown>;
+  if (typeof seq !== "number" || !Number.isSafeInteger(seq) || seq < 0 || typeof filters !== "string") {
+    throw new AtProtocolValidationError("Invalid cursor");
+  }
+  if (filters !== fingerprint) {
+    throw new AtProtocolValidationError("Cursor was issued for different filters; start again without a cursor");
+  }
+  return seq;
 }
@@ -5,6 +5,10 @@ import type { SavedLabel, UnsignedLabel, CreateLabelData } from "../util/types.j
 import { getMongodUri } from "../../vitest.setup";
 import { safeAsyncOperation, getErrorMessage } from "../util/errorUtils";
 import { describe, it, expect, beforeAll, afterAll, afterEach, beforeEach, vi } from 'vitest';
+import { cborDecode } from "@atproto/common";
+import { Secp256k1Keypair, verifySignature } from "@atproto/crypto";
+import { encodeLabelCbor } from "../util/labels.js";
+import { WebSocket } from "ws";
 const TEST_TIMEOUT = 35000;
 const SETUP_TIMEOUT = 120000; // 2 minutos para la descarga del servidor
 
@@ -23,7 +27,7 @@ describe("LabelerServer", () => {
   beforeAll(async () => {
     await safeAsyncOperation(async () => {
       options.mongoUri = getMongodUri();
-      connection = await MongoClient.connect(options.mongoUri);
+      connection = await MongoClient.connect(getMongodUri());
       collection = connection.db("test").collection("labels");
     }, getErrorMessage('Failed to initialize test environment'));
   }, SETUP_TIMEOUT);
@@ -52,7 +56,7 @@ describe("LabelerServer", () => {
       await connection.db().admin().ping();
     }, getErrorMessage('Failed to prepare test')).catch(async () => {
       // Reconnect if ping fails
-      connection = await MongoClient.connect(options.mongoUri);
+      connection = await MongoClient.connect(getMongodUri());
       collection = connection.db("test").collection("labels");
     });
 
@@ -253,6 +257,7 @@ describe("LabelerServer", () => {
     describe("Label Negation", () => {
       const mockLabel: SavedLabel = {
         _id: new ObjectId(),
+        seq: 1,
         ver: 1,
         val: "test-label",
         uri: "at://test.com",
@@ -293,6 +298,221 @@ describe("LabelerServer", () => {
     });
   });
 
+  describe("Label Signatures", () => {
+    it("should sign labels over their DAG-CBOR encoding", async () => {
+      const keypair = await Secp256k1Keypair.import(options.signingKey);
+      const label = await server.createLabel({
+        ver: 1,
+        val: "signed",
+        uri: "did:web:alice.com",
+        cts: "2024-01-01T00:00:00Z",
+      });
+
+      expect(label.cts).toBe("2024-01-01T00:00:00.000Z");
+      await expect(verifySignature(keypair.did(), encodeLabelCbor(label), label.sig)).resolves.toBe(true);
+    });
+
+    it("should re-sign labels stored with legacy JSON signatures", async () => {
+      const keypair = await Secp256k1Keypair.import(options.signingKey);
+      const legacy: UnsignedLabel = {
+        ver: 1,
+        val: "legacy",
+        uri: "did:web:alice.com",
+        src: options.did,
+        cts: new Date().toISOString(),
+      };
+      const legacySig = await keypair.sign(Buffer.from(JSON.stringify(legacy)));
+      await server.createLabel({ ver: 1, val: "current", uri: "did:web:alice.com" });
+      const [current] = await server.db.findLabels({ val: "current" });
+      await collection.insertOne(
+        { ...legacy, sig: legacySig, _id: new ObjectId(), seq: current.seq + 1 } as unknown as SavedLabel,
+      );
+
+      await expect(server.resignLabels()).resolves.toBe(1);
+      await expect(server.resignLabels()).resolves.toBe(0);
+
+      const doc = await collection.findOne({ val: "legacy" });
+      const sig = new Uint8Array((doc?.sig as unknown as { buffer: Uint8Array }).buffer);
+      await expect(verifySignature(keypair.did(), encodeLabelCbor(legacy), sig)).resolves.toBe(true);
+    });
+  });
+
+  describe("Active Labels", () => {
+    it("should collapse label history into the effective labels", async () => {
+      const uri = "did:web:alice.com";
+      await server.createLabel({ ver: 1, val: "spam", uri, cts: "2024-01-01T00:00:00Z" });
+      await server.createLabel({ ver: 1, val: "spam", uri, neg: true, cts: "2024-01-02T00:00:00Z" });
+      await server.createLabel({ ver: 1, val: "rude", uri, cts: "2024-01-01T00:00:00Z" });
+      await server.createLabel({ ver: 1, val: "rude", uri, cts: "2024-01-03T00:00:00Z" });
+      await server.createLabel({ ver: 1, val: "rude", uri, src: "did:web:mod.com", cts: "2024-01-04T00:00:00Z" });
+      await server.createLabel({ ver: 1, val: "porn", uri, exp: new Date(Date.now() - 1000).toISOString() }, true);
+      await server.createLabel({ ver: 1, val: "spam", uri: "did:web:bob.com" });
+
+      const active = await server.getActiveLabels(uri);
+      expect(active.map(l => [l.val, l.src, l.cts])).toEqual([
+        ["rude", options.did, "2024-01-03T00:00:00.000Z"],
+        ["rude", "did:web:mod.com", "2024-01-04T00:00:00.000Z"],
+      ]);
+
+      const fromModerator = await server.getActiveLabels(uri, { src: "did:web:mod.com" });
+      expect(fromModerator.map(l => l.src)).toEqual(["did:web:mod.com"]);
+    });
+
+    it("should reject invalid subjects", async () => {
+      await expect(server.getActiveLabels("not-a-uri")).rejects.toThrow("Label validation failed");
+    });
+  });
+
+  describe("Batch Creation", () => {
+    it("should create valid labels and report invalid ones by index", async () => {
+      const result = await server.createLabels([
+        { ver: 1, val: "spam", uri: "did:web:alice.com" },
+        { ver: 1, val: "not valid", uri: "did:web:alice.com" },
+        { ver: 1, val: "rude", uri: "did:web:bob.com" },
+        { ver: 1, val: "spam", uri: "not-a-uri" },
+      ]);
+
+      expect(result.labels.map(({ index, label }) => [index, label.val])).toEqual([[0, "spam"], [2, "rude"]]);
+      expect(result.errors.map(({ index }) => index)).toEqual([1, 3]);
+      expect(result.errors[0].error.message).toContain("Label validation failed");
+
+      const stored = await server.db.findLabels({}, { sort: { seq: 1 } });
+      expect(stored.map(l => l.val)).toEqual(["spam", "rude"]);
+      expect(stored[1].seq).toBe(stored[0].seq + 1);
+      await expect(server.verifyStoredLabels()).resolves.toMatchObject({ checked: 2, invalid: [] });
+    });
+
+    it("should stop an ordered batch at the first label that fails to save", async () => {
+      await collection.createIndex({ uri: 1, val: 1 }, { unique: true });
+      const batch = [
+        { ver: 1, val: "spam", uri: "did:web:alice.com" },
+        { ver: 1, val: "spam", uri: "did:web:alice.com" },
+        { ver: 1, val: "rude", uri: "did:web:alice.com" },
+      ];
+
+      const ordered = await server.createLabels(batch);
+      expect(ordered.labels.map(({ index }) => index)).toEqual([0]);
+      expect(ordered.errors.map(({ index }) => index)).toEqual([1, 2]);
+      expect(ordered.errors[0].error.message).toBe("Failed to create label");
+
+      await collection.deleteMany({});
+      const unordered = await server.createLabels(batch, { ordered: false });
+      expect(unordered.labels.map(({ index }) => index)).toEqual([0, 2]);
+      expect(unordered.errors.map(({ index }) => index)).toEqual([1]);
+    });
+
+    it("should handle empty batches", async () => {
+      await expect(server.createLabels([])).resolves.toEqual({ labels: [], errors: [] });
+    });
+  });
+
+  describe("Moderation Events", () => {
+    beforeEach(async () => {
+      await connection.db("test").collection("moderation_events").deleteMany({});
+    });
+
+    it("should record an event for every label operation", async () => {
+      const uri = "did:web:alice.com";
+      const moderator = "did:web:mod.com";
+      await server.createLabel({ ver: 1, val: "spam", uri }, false, { actor: moderator, comment: "Reported spam" });
+      const [spam] = await server.db.findLabels({ val: "spam" });
+      await server.deleteLabel(spam._id, { comment: "Appeal accepted" });
+      await server.reverseLabelNegation(spam._id, true, { actor: moderator });
+      await server.createLabels([{ ver: 1, val: "rude", uri: "did:web:bob.com" }], {}, { actor: moderator });
+
+      const forAlice = await server.events.query({ subject: uri });
+      expect(forAlice.map(e => [e.type, e.actor, e.val, e.comment])).toEqual([
+        ["reverseNegation", moderator, "spam", undefined],
+        ["negate", options.did, "spam", "Appeal accepted"],
+        ["label", moderator, "spam", "Reported spam"],
+      ]);
+      expect(forAlice[2].labelId.equals(spam._id)).toBe(true);
+      expect(forAlice[0].labelId.equals(spam._id)).toBe(true);
+
+      const byModerator = await server.events.query({ actor: moderator, type: "label" });
+      expect(byModerator.map(e => e.subject.uri)).toEqual(["did:web:bob.com", uri]);
+    });
+
+    it("should run after hooks before reporting a batch event log failure", async () => {
+      const afterCreate = vi.fn();
+      server.on("afterCreate", afterCreate);
+      const record = vi.spyOn(server.events, "record").mockRejectedValueOnce(new Error("Event log unavailable"));
+      try {
+        await expect(server.createLabels([{ ver: 1, val: "rude", uri: "did:web:bob.com" }]))
+          .rejects.toThrow("Failed to record moderation events for the created labels");
+      } finally {
+        record.mockRestore();
+      }
+
+      await expect(server.db.findLabels({ val: "rude" })).resolves.toHaveLength(1);
+      expect(afterCreate).toHaveBeenCalledWith(expect.objectContaining({ val: "rude" }), {});
+    });
+
+    it("should query events by time range", async () => {
+      const before = new Date();
+      await server.createLabel({ ver: 1, val: "spam", uri: "did:web:alice.com" });
+
+      await expect(server.events.query({ since: before })).resolves.toHaveLength(1);
+      await expect(server.events.query({ until: before })).resolves.toHaveLength(0);
+      await expect(server.events.query({ since: new Date(Date.now() + 60000) })).resolves.toHaveLength(0);
+      await expect(server.events.query({ since: "not a date" })).rejects.toThrow("Invalid since time");
+    });
+
+    it("should reject invalid actors", async () => {
+      await expect(
+        server.createLabel({ ver: 1, val: "spam", uri: "did:web:alice.com" }, false, { actor: "alice" as `did:${string}` }),
+      ).rejects.toThrow("Label validation failed");
+      await expect(server.db.countLabels()).resolves.toBe(0);
+    });
+  });
+
+  describe("Label Verification", () => {
+    it("should report stored labels that do not verify against the signer", async () => {
+      await server.createLabel({ ver: 1, val: "valid", uri: "did:web:alice.com" });
+      await server.createLabel({ ver: 1, val: "tampered", uri: "did:web:alice.com" });
+      await collection.updateOne({ val: "tampered" }, { $set: { uri: "did:web:mallory.com" } });
+
+      const report = await server.verifyStoredLabels();
+
+      const keypair = await Secp256k1Keypair.import(options.signingKey);
+      expect(report.key).toBe(keypair.did());
+      expect(report.checked).toBe(2);
+      expect(report.invalid).toHaveLength(1);
+      expect(report.invalid[0].label.uri).toBe("did:web:mallory.com");
+    });
+
+    it("should resolve the verifying key from a DID document", async () => {
+      const keypair = await Secp256k1Keypair.import(options.signingKey);
+      const didResolver = vi.fn().mockResolvedValue({
+        id: options.did,
+        verificationMethod: [{
+          id: `${options.did}#atproto_label`,
+          type: "Multikey",
+          controller: options.did,
+          publicKeyMultibase: keypair.did().replace("did:key:", ""),
+        }],
+      });
+      const resolvingServer = new LabelerServer({ ...options, didResolver });
+      await resolvingServer.connect();
+      await server.createLabel({ ver: 1, val: "valid", uri: "did:web:alice.com" });
+
+      const report = await resolvingServer.verifyStoredLabels({ key: options.did });
+      expect(didResolver).toHaveBeenCalledWith(options.did);
+      expect(report.invalid).toHaveLength(0);
+
+      const otherKey = await Secp256k1Keypair.create();
+      const mismatch = await resolvingServer.verifyStoredLabels({ key: otherKey.publicKeyBytes() });
+      expect(mismatch.invalid).toHaveLength(1);
+
+      await resolvingServer.close();
+    });
+
+    it("should fail when the verifying key cannot be resolved", async () => {
+      await expect(server.verifyStoredLabels({ key: "did:plc:unknown" }))
+        .rejects.toThrow("Failed to verify stored labels");
+    });
+  });
+
   describe("Label Expiration", () => {
     it("should handle expired labels correctly", async () => {
       await safeAsyncOperation(async () => {
@@ -315,7 +535,7 @@ describe("LabelerServer", () => {
         expect(validLabel.exp).toBe(futureDate.toISOString());
         
         // Verify it's queryable
-        let labels = await server.queryLabels();
+        let { labels } = await server.queryLabels();
         expect(labels.length).toBe(1);
         expect(labels[0].exp).toBe(futureDate.toISOString());
         
@@ -340,13 +560,13 @@ describe("LabelerServer", () => {
         expect(expiredLabel.exp).toBe(pastDate.toISOString());
         
         // Query should return both labels when allowExpired is true
-        labels = await server.queryLabels({ allowExpired: true });
+        ({ labels } = await server.queryLabels({ allowExpired: true }));
         expect(labels.length).toBe(2);
         expect(labels.some(l => l.exp === futureDate.toISOString())).toBe(true);
         expect(labels.some(l => l.exp === pastDate.toISOString())).toBe(true);
         
         // Query should only return non-expired label by default
-        labels = await server.queryLabels();
+        ({ labels } = await server.queryLabels());
         expect(labels.length).toBe(1);
         expect(labels[0].exp).toBe(futureDate.toISOString());
       }, getErrorMessage('Failed to handle expired labels correctly'));
@@ -381,12 +601,12 @@ describe("LabelerServer", () => {
         }, true);
 
         // Query with specific expiration date should work with allowExpired
-        let labels = await server.queryLabels({ exp: pastDate.toISOString(), allowExpired: true });
+        let { labels } = await server.queryLabels({ exp: pastDate.toISOString(), allowExpired: true });
         expect(labels.length).toBe(1);
         expect(labels[0].exp).toBe(pastDate.toISOString());
 
         // Query with future expiration date should work
-        labels = await server.queryLabels({ exp: futureDate.toISOString() });
+        ({ labels } = await server.queryLabels({ exp: futureDate.toISOString() }));
         expect(labels.length).toBe(1);
         expect(labels[0].exp).toBe(futureDate.toISOString());
 
@@ -397,6 +617,65 @@ describe("LabelerServer", () => {
     });
   });
 
+  describe("Label Queries", () => {
+    const cid = "bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi";
+
+    it("should filter queryLabels by subject, source, value, negation, time and CID", async () => {
+      await server.createLabel({ ver: 1, val: "spam", uri: "did:web:alice.com", cts: "2024-01-01T00:00:00.000Z" });
+      await server.createLabel({ ver: 1, val: "rude", uri: "at://did:web:alice.com/app.bsky.feed.post/1", cid, cts: "2024-02-01T00:00:00.000Z" });
+      await server.createLabel({ ver: 1, val: "spam", uri: "at://did:web:bob.com/app.bsky.feed.post/1", src: "did:web:other.com", cts: "2024-03-01T00:00:00.000Z" });
+      await server.createLabel({ ver: 1, val: "spam", uri: "did:web:alice.com", neg: true, cts: "2024-04-01T00:00:00.000Z" });
+
+      const vals = async (query: Parameters<LabelerServer["queryLabels"]>[0]): Promise<Array<[string, boolean]>> =>
+        (await server.queryLabels(query)).labels.map(l => [l.val, !!l.neg]);
+
+      expect(await vals({})).toEqual([["spam", false], ["rude", false], ["spam", false], ["spam", true]]);
+      expect(await vals({ uriPatterns: ["at://did:web:alice.com/*"] })).toEqual([["rude", false]]);
+      expect(await vals({ uriPatterns: ["did:web:alice.com", "at://did:web:bob.com/app.bsky.feed.post/*"] }))
+        .toEqual([["spam", false], ["spam", false], ["spam", true]]);
+      expect(await vals({ subjectType: "record" })).toEqual([["rude", false], ["spam", false]]);
+      expect(await vals({ subjectType: "account", neg: false })).toEqual([["spam", false]]);
+      expect(await vals({ sources: ["did:web:other.com"] })).toEqual([["spam", false]]);
+      expect(await vals({ vals: ["spam"], neg: true })).toEqual([["spam", true]]);
+      expect(await vals({ since: "2024-02-01T00:00:00Z", until: "2024-04-01T00:00:00Z" })).toEqual([["rude", false], ["spam", false]]);
+      expect(await vals({ cid })).toEqual([["rude", false]]);
+    });
+
+    it("should page through queryLabels with an opaque cursor", async () => {
+      for (const val of ["one", "two", "three"]) {
+        await server.createLabel({ ver: 1, val, uri: "did:web:alice.com" });
+      }
+      await server.createLabel({ ver: 1, val: "other", uri: "did:web:bob.com" });
+      const query = { uriPatterns: ["did:web:alice.com"], limit: 2 };
+
+      const first = await server.queryLabels(query);
+      expect(first.labels.map(l => l.val)).toEqual(["one", "two"]);
+      expect(first.cursor).toEqual(expect.any(String));
+      expect(Number.isNaN(Number(first.cursor))).toBe(true);
+
+      // Labels stored while paging are appended, without shifting the pages already read
+      await server.createLabel({ ver: 1, val: "four", uri: "did:web:alice.com" });
+      const second = await server.queryLabels({ ...query, cursor: first.cursor });
+      expect(second.labels.map(l => l.val)).toEqual(["three", "four"]);
+      const last = await server.queryLabels({ ...query, cursor: second.cursor });
+      expect(last).toEqual({ labels: [], cursor: second.cursor });
+
+      await expect(server.queryLabels({ uriPatterns: ["did:web:bob.com"], cursor: first.cursor }))
+        .rejects.toThrow("Cursor was issued for different filters");
+      await expect(server.queryLabels({ cursor: "not-a-cursor" })).rejects.toThrow("Invalid cursor");
+      await expect(server.queryLabels({ limit: 251 })).rejects.toThrow("Limit must be an integer between 1 and 250");
+    });
+
+    it("should reject invalid queryLabels filters", async () => {
+      await expect(server.queryLabels({ uriPatterns: ["https://example.com"] })).rejects.toThrow("Label validation failed");
+      await expect(server.queryLabels({ uriPatterns: ["at://*/app.bsky.feed.post/1"] })).rejects.toThrow("Only trailing wildcards");
+      await expect(server.queryLabels({ sources: ["did:bad" as `did:${string}`] })).rejects.toThrow("Invalid source");
+      await expect(server.queryLabels({ vals: ["Not A Value"] })).rejects.toThrow("Label validation failed");
+      await expect(server.queryLabels({ since: "yesterday" })).rejects.toThrow("since must be an ISO 8601 timestamp");
+      await expect(server.queryLabels({ cid: "not-a-cid" })).rejects.toThrow("Label validation failed");
+    });
+  });
+
   describe("Label Version", () => {
     it("should require version 1", async () => {
       const invalidVersionLabel = {
@@ -434,6 +713,187 @@ describe("LabelerServer", () => {
     });
   });
 
+  describe("XRPC Server", () => {
+    const cid = "bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi";
+
+    afterEach(async () => {
+      await server.stop();
+    });
+
+    it("should serve labels from queryLabels", async () => {
+      await server.createLabel({ ver: 1, val: "test", uri: "at://did:web:test.com/app.bsky.feed.post/1", cid });
+
+      const response = await server.app.inject({
+        method: "GET",
+        url: "/xrpc/com.atproto.label.queryLabels?uriPatterns=*",
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = response.json();
+      expect(body.labels).toHaveLength(1);
+      expect(body.labels[0]).toMatchObject({
+        ver: 1,
+        val: "test",
+        uri: "at://did:web:test.com/app.bsky.feed.post/1",
+        src: "did:web:test.com",
+        neg: false,
+      });
+      expect(body.labels[0]).not.toHaveProperty("_id");
+      expect(body.labels[0].sig.$bytes).toEqual(expect.any(String));
+      expect(body.cursor).toEqual(expect.any(String));
+    });
+
+    it("should filter queryLabels by exact and prefix uriPatterns", async () => {
+      await server.createLabel({ ver: 1, val: "a", uri: "at://did:web:alice.com/app.bsky.feed.post/1", cid });
+      await server.createLabel({ ver: 1, val: "b", uri: "at://did:web:alice.com/app.bsky.feed.post/2", cid });
+      await server.createLabel({ ver: 1, val: "c", uri: "at://did:web:bob.com/app.bsky.feed.post/1", cid });
+      await server.createLabel({ ver: 1, val: "d", uri: "did:web:carol.com" });
+
+      const prefix = await server.app.inject({
+        method: "GET",
+        url: "/xrpc/com.atproto.label.queryLabels",
+        query: { uriPatterns: "at://did:web:alice.com/*" },
+      });
+      expect(prefix.json().labels.map((l: UnsignedLabel) => l.val)).toEqual(["a", "b"]);
+
+      const mixed = await server.app.inject({
+        method: "GET",
+        url: "/xrpc/com.atproto.label.queryLabels",
+        query: { uriPatterns: ["did:web:carol.com", "at://did:web:bob.com/*"] },
+      });
+      expect(mixed.json().labels.map((l: UnsignedLabel) => l.val)).toEqual(["c", "d"]);
+    });
+
+    it("should filter queryLabels by sources", async () => {
+      await server.createLabel({ ver: 1, val: "mine", uri: "did:web:alice.com" });
+      await server.createLabel({ ver: 1, val: "theirs", uri: "did:web:alice.com", src: "did:web:other.com" });
+
+      const response = await server.app.inject({
+        method: "GET",
+        url: "/xrpc/com.atproto.label.queryLabels",
+        query: { uriPatterns: "*", sources: "did:web:other.com" },
+      });
+      expect(response.json().labels.map((l: UnsignedLabel) => l.val)).toEqual(["theirs"]);
+    });
+
+    it("should paginate queryLabels with limit and cursor", async () => {
+      for (const val of ["one", "two", "three"]) {
+        await server.createLabel({ ver: 1, val, uri: "did:web:alice.com" });
+      }
+
+      const first = await server.app.inject({
+        method: "GET",
+        url: "/xrpc/com.atproto.label.queryLabels",
+        query: { uriPatterns: "*", limit: "2" },
+      });
+      const firstPage = first.json();
+      expect(firstPage.labels.map((l: UnsignedLabel) => l.val)).toEqual(["one", "two"]);
+
+      const second = await server.app.inject({
+        method: "GET",
+        url: "/xrpc/com.atproto.label.queryLabels",
+        query: { uriPatterns: "*", limit: "2", cursor: firstPage.cursor },
+      });
+      expect(second.json().labels.map((l: UnsignedLabel) => l.val)).toEqual(["three"]);
+    });
+
+    it("should reject invalid queryLabels parameters", async () => {
+      for (const limit of ["1000", "0", "10abc", "1e3", "-1", ""]) {
+        const badLimit = await server.app.inject({
+          method: "GET",
+          url: "/xrpc/com.atproto.label.queryLabels",
+          query: { uriPatterns: "*", limit },
+        });
+        expect(badLimit.statusCode).toBe(400);
+        expect(badLimit.json().error).toBe("InvalidRequest");
+      }
+
+      const badPattern = await server.app.inject({
+        method: "GET",
+        url: "/xrpc/com.atproto.label.queryLabels",
+        query: { uriPatterns: "at://*/app.bsky.feed.post/1" },
+      });
+      expect(badPattern.statusCode).toBe(400);
+      expect(badPattern.json().message).toContain("Only trailing wildcards");
+
+      const badCursor = await server.app.inject({
+        method: "GET",
+        url: "/xrpc/com.atproto.label.queryLabels",
+        query: { uriPatterns: "*", cursor: "not-a-cursor" },
+      });
+      expect(badCursor.statusCode).toBe(400);
+    });
+
+    it("should listen on the configured port", async () => {
+      const address = await server.start(0);
+      expect(address).toMatch(/^http:\/\//);
+    });
+
+    describe("subscribeLabels", () => {
+      interface Frame { op: string; tag?: string; body: any }
+
+      async function subscribe(query = ""): Promise<{ socket: WebSocket; frames: Frame[] }> {
+        const address = await server.start(0);
+        const socket = new WebSocket(`${address.replace("http", "ws")}/xrpc/com.atproto.label.subscribeLabels${query}`);
+        const frames: Frame[] = [];
+        socket.on("message", (data: Buffer) => frames.push(cborDecode(new Uint8Array(data)) as Frame));
+        await new Promise((resolve) => socket.once("open", resolve));
+        return { socket, frames };
+      }
+
+      const waitFor = (predicate: () => boolean) => vi.waitFor(() => expect(predicate()).toBe(true));
+
+      it("should push created and negated labels live", async () => {
+        const { frames } = await subscribe();
+
+        const created = await server.createLabel({ ver: 1, val: "live", uri: "did:web:alice.com" });
+        const [stored] = await server.db.findLabels({ val: "live" });
+        await server.deleteLabel(stored._id);
+
+        await waitFor(() => frames.length === 2);
+        expect(frames.map(f => f.tag)).toEqual(["#labels", "#labels"]);
+        expect(frames[0].body.labels[0]).toMatchObject({ val: created.val, neg: false });
+        expect(frames[1].body.labels[0]).toMatchObject({ val: created.val, neg: true });
+        expect(frames[1].body.seq).toBe(frames[0].body.seq + 1);
+      });
+
+      it("should replay labels after the cursor before streaming", async () => {
+        for (const val of ["one", "two", "three"]) {
+          await server.createLabel({ ver: 1, val, uri: "did:web:alice.com" });
+        }
+        const [first] = await server.db.findLabels({ val: "one" });
+
+        const { frames } = await subscribe(`?cursor=${first.seq}`);
+        await server.createLabel({ ver: 1, val: "four", uri: "did:web:alice.com" });
+
+        await waitFor(() => frames.length === 3);
+        expect(frames.map(f => f.body.labels[0].val)).toEqual(["two", "three", "four"]);
+      });
+
+      it("should report outdated cursors and replay everything", async () => {
+        await server.createLabel({ ver: 1, val: "one", uri: "did:web:alice.com" });
+        await server.createLabel({ ver: 1, val: "two", uri: "did:web:alice.com" });
+        await collection.deleteOne({ val: "one" });
+
+        const { frames } = await subscribe("?cursor=0");
+
+        await waitFor(() => frames.length === 2);
+        expect(frames[0]).toMatchObject({ tag: "#info", body: { name: "OutdatedCursor" } });
+        expect(frames[1].body.labels[0].val).toBe("two");
+      });
+
+      it("should reject future cursors", async () => {
+        await server.createLabel({ ver: 1, val: "one", uri: "did:web:alice.com" });
+
+        const { socket, frames } = await subscribe("?cursor=1000");
+
+        await waitFor(() => frames.length === 1);
+        expect(frames[0]).toMatchObject({ op: "error", body: { error: "FutureCursor" } });
+        await vi.waitFor(() => expect(socket.readyState).toBe(WebSocket.CLOSED));
+      });
+    });
+  });
+
   describe("Additional Tests", () => {
     // Helper function to create a server instance
     async function createServer(): Promise<LabelerServer> {
@@ -564,6 +1024,7 @@ describe("LabelerServer", () => {
         // Mock findOne to return a label and saveLabel to fail
         vi.spyOn(server.db, "findOne").mockResolvedValue({
           _id: new ObjectId(),
+          seq: 1,
           ver: 1,
           val: "test",
           uri: "at://test.com",
@@ -588,6 +1049,7 @@ describe("LabelerServer", () => {
         // Mock findOne to return a label and signer to fail
         vi.spyOn(server.db, "findOne").mockResolvedValue({
           _id: new ObjectId(),
+          seq: 1,
           ver: 1,
           val: "test",
           uri: "at://test.com",
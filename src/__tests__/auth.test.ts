@@ -0,0 +1,212 @@
+import { Secp256k1Keypair } from "@atproto/crypto";
+import { LabelAuthorizer, verifyServiceJwt } from "../auth.js";
+import { LabelerServer } from "../LabelerServer.js";
+import { MemoryLabelStore } from "../memory.js";
+import type { DidDocument } from "../util/did.js";
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from "vitest";
+
+const LABELER_DID = "did:web:labeler.test";
+const MODERATOR_DID = "did:web:mod.test";
+const SIGNING_KEY = "0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef";
+const EMIT_EVENT = "tools.ozone.moderation.emitEvent";
+
+/**
+ * Mints a service auth token signed by the given keypair, as a PDS would.
+ */
+async function createServiceJwt(keypair: Secp256k1Keypair, payload: Record<string, unknown>): Promise<string> {
+  const header = Buffer.from(JSON.stringify({ typ: "JWT", alg: "ES256K" })).toString("base64url");
+  const body = Buffer.from(JSON.stringify({
+    iss: MODERATOR_DID,
+    aud: LABELER_DID,
+    lxm: EMIT_EVENT,
+    exp: Math.floor(Date.now() / 1000) + 60,
+    ...payload,
+  })).toString("base64url");
+  const sig = await keypair.sign(Buffer.from(`${header}.${body}`, "utf8"));
+  return `${header}.${body}.${Buffer.from(sig).toString("base64url")}`;
+}
+
+describe("LabelAuthorizer", () => {
+  const authorizer = new LabelAuthorizer(LABELER_DID, [
+    { actor: MODERATOR_DID, vals: ["spam"], subjects: ["at://did:plc:alice/*"] },
+    { actor: MODERATOR_DID, vals: ["*"], subjects: ["did:plc:bob"], actions: ["negate"] },
+  ]);
+
+  it("should allow operations granted to the actor", () => {
+    expect(authorizer.isAllowed(MODERATOR_DID, "apply", { val: "spam", uri: "at://did:plc:alice/post/1" })).toBe(true);
+    expect(authorizer.isAllowed(MODERATOR_DID, "negate", { val: "rude", uri: "did:plc:bob" })).toBe(true);
+    expect(authorizer.isAllowed(LABELER_DID, "apply", { val: "rude", uri: "did:plc:carol" })).toBe(true);
+  });
+
+  it("should deny operations outside the actor's grants", () => {
+    expect(authorizer.isAllowed(MODERATOR_DID, "apply", { val: "rude", uri: "at://did:plc:alice/post/1" })).toBe(false);
+    expect(authorizer.isAllowed(MODERATOR_DID, "apply", { val: "spam", uri: "did:plc:alice" })).toBe(false);
+    expect(authorizer.isAllowed(MODERATOR_DID, "apply", { val: "rude", uri: "did:plc:bob" })).toBe(false);
+    expect(authorizer.isAllowed("did:web:other.test", "apply", { val: "spam", uri: "did:plc:bob" })).toBe(false);
+  });
+
+  it("should require an actor and reject spoofed sources", () => {
+    const label = { val: "spam", uri: "at://did:plc:alice/post/1" };
+    expect(() => authorizer.authorize(undefined, "apply", label)).toThrow("must name the actor");
+    expect(() => authorizer.authorize(MODERATOR_DID, "apply", { ...label, src: MODERATOR_DID })).toThrow(
+      "Labels must be created with the labeler's DID as src",
+    );
+    expect(() => authorizer.authorize(MODERATOR_DID, "apply", { ...label, src: LABELER_DID })).not.toThrow();
+  });
+
+  it("should reject invalid policies", () => {
+    expect(() => new LabelAuthorizer(LABELER_DID, [{ actor: "mod" as `did:${string}`, vals: ["*"] }])).toThrow();
+    expect(() => new LabelAuthorizer(LABELER_DID, [{ actor: MODERATOR_DID, vals: ["*"], subjects: ["at://*/post"] }]))
+      .toThrow("Only trailing wildcards");
+  });
+});
+
+describe("Service Auth", () => {
+  let keypair: Secp256k1Keypair;
+  let resolver: (did: string) => Promise<DidDocument | null>;
+
+  beforeAll(async () => {
+    keypair = await Secp256k1Keypair.create();
+    const didKey = keypair.did();
+    resolver = async (did) => did === MODERATOR_DID
+      ? {
+        id: did,
+        verificationMethod: [{
+          id: `${did}#atproto`,
+          type: "Multikey",
+          controller: did,
+          publicKeyMultibase: didKey.slice("did:key:".length),
+        }],
+      }
+      : null;
+  });
+
+  it("should return the issuer of a valid token", async () => {
+    const token = await createServiceJwt(keypair, {});
+    await expect(verifyServiceJwt(token, { audience: LABELER_DID, lxm: EMIT_EVENT, resolver })).resolves.toBe(MODERATOR_DID);
+
+    const toService = await createServiceJwt(keypair, { aud: `${LABELER_DID}#atproto_labeler` });
+    await expect(verifyServiceJwt(toService, { audience: LABELER_DID, lxm: EMIT_EVENT, resolver })).resolves.toBe(MODERATOR_DID);
+  });
+
+  it("should reject invalid tokens", async () => {
+    const options = { audience: LABELER_DID, lxm: EMIT_EVENT, resolver } as const;
+    const other = await Secp256k1Keypair.create();
+
+    await expect(verifyServiceJwt("not-a-jwt", options)).rejects.toMatchObject({ status: 401, error: "BadJwt" });
+    await expect(verifyServiceJwt(await createServiceJwt(keypair, { aud: "did:web:other.test" }), options))
+      .rejects.toMatchObject({ error: "BadJwtAudience" });
+    await expect(verifyServiceJwt(await createServiceJwt(keypair, { exp: 1 }), options))
+      .rejects.toMatchObject({ error: "JwtExpired" });
+    await expect(verifyServiceJwt(await createServiceJwt(keypair, { lxm: "com.atproto.label.queryLabels" }), options))
+      .rejects.toMatchObject({ error: "BadJwtLexiconMethod" });
+    await expect(verifyServiceJwt(await createServiceJwt(other, {}), options))
+      .rejects.toMatchObject({ error: "BadJwtSignature" });
+    await expect(verifyServiceJwt(await createServiceJwt(keypair, { iss: "did:web:unknown.test" }), options))
+      .rejects.toMatchObject({ error: "BadJwt" });
+  });
+});
+
+describe("LabelerServer Authorization", () => {
+  let keypair: Secp256k1Keypair;
+  let store: MemoryLabelStore;
+  let server: LabelerServer;
+
+  beforeAll(async () => {
+    keypair = await Secp256k1Keypair.create();
+  });
+
+  beforeEach(async () => {
+    const didKey = keypair.did();
+    store = new MemoryLabelStore();
+    server = new LabelerServer({
+      did: LABELER_DID,
+      signingKey: SIGNING_KEY,
+      store,
+      authorization: [{ actor: MODERATOR_DID, vals: ["spam"], subjects: ["did:plc:*"] }],
+      didResolver: async (did) => ({
+        id: did,
+        verificationMethod: [{
+          id: "#atproto",
+          type: "Multikey",
+          controller: did,
+          publicKeyMultibase: didKey.slice("did:key:".length),
+        }],
+      }),
+    });
+    await server.connect();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it("should only let actors perform the operations they are granted", async () => {
+    const moderator = { actor: MODERATOR_DID } as const;
+    await server.createLabel({ ver: 1, val: "spam", uri: "did:plc:alice" }, false, moderator);
+
+    await expect(server.createLabel({ ver: 1, val: "rude", uri: "did:plc:alice" }, false, moderator))
+      .rejects.toThrow("Label authorization failed");
+    await expect(server.createLabel({ ver: 1, val: "spam", uri: "did:plc:alice" }))
+      .rejects.toThrow("must name the actor");
+    await expect(server.createLabel({ ver: 1, val: "spam", uri: "did:plc:alice", src: MODERATOR_DID }, false, moderator))
+      .rejects.toThrow("Labels must be created with the labeler's DID as src");
+
+    const [stored] = await store.findLabels();
+    await expect(server.deleteLabel(stored._id, { actor: "did:web:other.test" })).rejects.toThrow("Label authorization failed");
+    await expect(server.deleteLabel(stored._id, moderator)).resolves.toMatchObject({ neg: true });
+    await expect(server.createLabel({ ver: 1, val: "rude", uri: "did:plc:alice" }, false, { actor: LABELER_DID }))
+      .resolves.toMatchObject({ src: LABELER_DID });
+  });
+
+  it("should report unauthorized labels in a batch by index", async () => {
+    const result = await server.createLabels([
+      { ver: 1, val: "spam", uri: "did:plc:alice" },
+      { ver: 1, val: "spam", uri: "did:web:bob.test" },
+    ], {}, { actor: MODERATOR_DID });
+
+    expect(result.labels.map(({ index }) => index)).toEqual([0]);
+    expect(result.errors.map(({ index, error }) => [index, error.message])).toEqual([
+      [1, expect.stringContaining("Label authorization failed")],
+    ]);
+  });
+
+  it("should emit label events from moderators authenticated with service auth", async () => {
+    const emitEvent = async (token: string | undefined, body: Record<string, unknown>) => server.app.inject({
+      method: "POST",
+      url: `/xrpc/${EMIT_EVENT}`,
+      headers: token ? { authorization: `Bearer ${token}` } : {},
+      payload: body,
+    });
+    const body = {
+      event: { $type: "tools.ozone.moderation.defs#modEventLabel", createLabelVals: ["spam"], negateLabelVals: [] },
+      subject: { $type: "com.atproto.admin.defs#repoRef", did: "did:plc:alice" },
+      createdBy: MODERATOR_DID,
+    };
+    const token = await createServiceJwt(keypair, {});
+
+    const response = await emitEvent(token, body);
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toMatchObject({ id: 1, createdBy: MODERATOR_DID });
+    expect((await store.findLabels()).map(l => [l.val, l.uri, l.src])).toEqual([["spam", "did:plc:alice", LABELER_DID]]);
+
+    expect((await emitEvent(undefined, body)).json()).toMatchObject({ error: "AuthenticationRequired" });
+    const forbidden = await emitEvent(token, { ...body, event: { ...body.event, createLabelVals: ["spam", "rude"] } });
+    expect(forbidden.statusCode).toBe(403);
+    const spoofed = await emitEvent(token, { ...body, createdBy: "did:web:other.test" });
+    expect(spoofed.statusCode).toBe(400);
+    for (const event of [
+      { durationInHours: 0 },
+      { durationInHours: -1 },
+      { durationInHours: "24" },
+      { createLabelVals: "spam" },
+      { createLabelVals: [1] },
+      { negateLabelVals: [{ val: "spam" }] },
+    ]) {
+      const malformed = await emitEvent(token, { ...body, event: { ...body.event, ...event } });
+      expect(malformed.statusCode).toBe(400);
+      expect(malformed.json()).toMatchObject({ error: "InvalidRequest" });
+    }
+    expect(await store.countLabels()).toBe(1);
+  });
+});
@@ -0,0 +1,149 @@
+import { MongoClient, ObjectId } from "mongodb";
+import { LabelerServer } from "../LabelerServer.js";
+import { MemoryLabelStore } from "../memory.js";
+import type { ModerationSubject } from "../util/types.js";
+import { getMongodUri } from "../../vitest.setup";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+const DATABASE_NAME = "cases_test";
+const LABELER_DID = "did:web:labeler.test";
+const MODERATOR_DID = "did:web:mod.test";
+const SENIOR_DID = "did:web:senior.test";
+const SIGNING_KEY = "0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef";
+
+const post: ModerationSubject = {
+  $type: "com.atproto.repo.strongRef",
+  uri: "at://did:plc:alice/app.bsky.feed.post/3jxtb5w2g622y",
+  cid: "bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi",
+};
+const account: ModerationSubject = { $type: "com.atproto.admin.defs#repoRef", did: "did:plc:alice" };
+
+describe("CaseQueue", () => {
+  let server: LabelerServer;
+
+  beforeEach(async () => {
+    server = new LabelerServer({
+      did: LABELER_DID,
+      signingKey: SIGNING_KEY,
+      mongoUri: getMongodUri(),
+      databaseName: DATABASE_NAME,
+      authorization: [
+        { actor: MODERATOR_DID, vals: ["spam"] },
+        { actor: SENIOR_DID, vals: ["*"] },
+      ],
+    });
+    await server.connect();
+  });
+
+  afterEach(async () => {
+    const raw = await MongoClient.connect(getMongodUri());
+    await raw.db(DATABASE_NAME).dropDatabase();
+    await raw.close();
+    await server.close();
+  });
+
+  it("should list open cases by priority, then age", async () => {
+    const low = await server.cases.open(post, LABELER_DID);
+    const high = await server.cases.open(account, LABELER_DID, { priority: 2, note: "Many reports" });
+
+    expect(high).toMatchObject({ status: "open", subjectUri: "did:plc:alice", notes: [{ text: "Many reports" }] });
+    expect((await server.cases.list()).map(c => String(c._id))).toEqual([String(high._id), String(low._id)]);
+    expect((await server.cases.list({ subject: post.uri })).map(c => String(c._id))).toEqual([String(low._id)]);
+    await expect(server.cases.open({ ...post, cid: "invalid" }, LABELER_DID)).rejects.toThrow("Invalid CID");
+  });
+
+  it("should claim, escalate and acknowledge cases", async () => {
+    const { _id: id } = await server.cases.open(post, LABELER_DID);
+
+    await expect(server.cases.claim(id, MODERATOR_DID)).resolves.toMatchObject({ assignee: MODERATOR_DID });
+    await expect(server.cases.claim(id, SENIOR_DID)).resolves.toBeNull();
+    expect((await server.cases.list({ assignee: null })).length).toBe(0);
+
+    const escalated = await server.cases.escalate(id, MODERATOR_DID, "Needs a second look");
+    expect(escalated).toMatchObject({ status: "escalated", notes: [{ author: MODERATOR_DID, text: "Needs a second look" }] });
+    expect(escalated).not.toHaveProperty("assignee");
+    await expect(server.cases.escalate(id, MODERATOR_DID)).resolves.toBeNull();
+
+    await expect(server.cases.claim(id, SENIOR_DID)).resolves.toMatchObject({ assignee: SENIOR_DID });
+    await expect(server.cases.acknowledge(id, SENIOR_DID)).resolves.toMatchObject({ status: "closed" });
+    await expect(server.cases.acknowledge(id, SENIOR_DID)).resolves.toBeNull();
+    await expect(server.cases.claim(new ObjectId(), SENIOR_DID)).resolves.toBeNull();
+
+    const history = (await server.cases.get(id))?.history.map(({ action, actor, from, to }) => [action, actor, from, to]);
+    expect(history).toEqual([
+      ["open", LABELER_DID, undefined, "open"],
+      ["claim", MODERATOR_DID, "open", "open"],
+      ["escalate", MODERATOR_DID, "open", "escalated"],
+      ["claim", SENIOR_DID, "escalated", "escalated"],
+      ["acknowledge", SENIOR_DID, "escalated", "closed"],
+    ]);
+  });
+
+  it("should let only one of concurrent actions on a case apply", async () => {
+    const { _id: id, version } = await server.cases.open(post, LABELER_DID);
+    expect(version).toBe(0);
+
+    const claims = await Promise.all([server.cases.claim(id, MODERATOR_DID), server.cases.claim(id, SENIOR_DID)]);
+    expect(claims.filter(claimed => claimed !== null)).toEqual([expect.objectContaining({ version: 1 })]);
+    const closed = await Promise.all([
+      server.cases.acknowledge(id, MODERATOR_DID),
+      server.cases.acknowledge(id, SENIOR_DID),
+    ]);
+    expect(closed.filter(changed => changed !== null)).toHaveLength(1);
+    await expect(server.cases.get(id)).resolves.toMatchObject({ version: 2 });
+    expect((await server.cases.get(id))?.history).toHaveLength(3);
+  });
+
+  it("should only let the assignee resolve a claimed case", async () => {
+    const claimed = await server.cases.open(post, LABELER_DID);
+    const other = await server.cases.open(post, LABELER_DID);
+    await server.cases.claim(claimed._id, MODERATOR_DID);
+    await server.cases.claim(other._id, MODERATOR_DID);
+
+    await expect(server.cases.resolveWithLabel(claimed._id, SENIOR_DID, { val: "spam" })).resolves.toBeNull();
+    await expect(server.events.query({ subject: post.uri })).resolves.toEqual([]);
+
+    // The label closes the other cases for the subject, whoever claimed them
+    const unclaimed = await server.cases.open(post, LABELER_DID);
+    const result = await server.cases.resolveWithLabel(unclaimed._id, SENIOR_DID, { val: "spam" });
+    expect(result?.cases.map(c => String(c._id)).sort())
+      .toEqual([String(claimed._id), String(other._id), String(unclaimed._id)].sort());
+  });
+
+  it("should resolve every open case for the subject with one label", async () => {
+    const first = await server.cases.open(post, LABELER_DID);
+    const second = await server.cases.open(post, LABELER_DID);
+    const other = await server.cases.open(account, LABELER_DID);
+    await server.cases.escalate(second._id, MODERATOR_DID);
+
+    const result = await server.cases.resolveWithLabel(first._id, MODERATOR_DID, { val: "spam" }, "Selling followers");
+
+    expect(result?.label).toMatchObject({ src: LABELER_DID, uri: post.uri, cid: post.cid, val: "spam" });
+    expect(result?.cases.map(c => String(c._id)).sort()).toEqual([String(first._id), String(second._id)].sort());
+    expect(result?.cases.map(c => c.history.at(-1))).toEqual([
+      expect.objectContaining({ action: "resolve", actor: MODERATOR_DID, to: "closed", label: { val: "spam", neg: false } }),
+      expect.objectContaining({ action: "resolve", actor: MODERATOR_DID, to: "closed", label: { val: "spam", neg: false } }),
+    ]);
+    expect((await server.cases.list()).map(c => String(c._id))).toEqual([String(other._id)]);
+    await expect(server.events.query({ subject: post.uri })).resolves.toMatchObject([
+      { type: "label", actor: MODERATOR_DID, val: "spam", comment: "Selling followers" },
+    ]);
+    await expect(server.cases.resolveWithLabel(first._id, MODERATOR_DID, { val: "spam" })).resolves.toBeNull();
+  });
+
+  it("should leave cases open if the label cannot be created", async () => {
+    const { _id: id } = await server.cases.open(account, LABELER_DID);
+
+    await expect(server.cases.resolveWithLabel(id, MODERATOR_DID, { val: "rude" }))
+      .rejects.toThrow("Label authorization failed");
+    await expect(server.cases.get(id)).resolves.toMatchObject({ status: "open" });
+    await expect(server.cases.resolveWithLabel(id, SENIOR_DID, { val: "rude" }))
+      .resolves.toMatchObject({ label: { uri: "did:plc:alice", val: "rude" } });
+  });
+
+  it("should require a MongoDB store", async () => {
+    const memoryServer = new LabelerServer({ did: LABELER_DID, signingKey: SIGNING_KEY, store: new MemoryLabelStore() });
+    expect(() => memoryServer.cases).toThrow("The case queue requires a MongoDB label store");
+    await memoryServer.close();
+  });
+});
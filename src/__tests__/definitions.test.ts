@@ -0,0 +1,127 @@
+import { MongoClient } from "mongodb";
+import { LabelerServer } from "../LabelerServer.js";
+import { MongoDBClient } from "../mongodb.js";
+import { LabelDefinitionRegistry } from "../definitions.js";
+import { MemoryLabelStore } from "../memory.js";
+import type { LabelDefinition } from "../types/index.js";
+import { getMongodUri } from "../../vitest.setup";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+const DATABASE_NAME = "definitions_test";
+
+const spam: LabelDefinition = {
+  identifier: "spam",
+  severity: "alert",
+  blurs: "none",
+  locales: [{ lang: "en", name: "Spam", description: "Unwanted promotional content" }],
+};
+
+describe("LabelDefinitionRegistry", () => {
+  let client: MongoDBClient;
+  let registry: LabelDefinitionRegistry;
+
+  beforeEach(async () => {
+    client = new MongoDBClient({ uri: getMongodUri(), databaseName: DATABASE_NAME });
+    await client.connect();
+    registry = new LabelDefinitionRegistry(client);
+    await registry.init();
+  });
+
+  afterEach(async () => {
+    const raw = await MongoClient.connect(getMongodUri());
+    await raw.db(DATABASE_NAME).dropDatabase();
+    await raw.close();
+    await client.close();
+  });
+
+  it("should store definitions with defaults and replace them by identifier", async () => {
+    await expect(registry.define(spam)).resolves.toEqual({ ...spam, defaultSetting: "warn", adultOnly: false });
+
+    await registry.define({ ...spam, severity: "inform", defaultSetting: "hide" });
+
+    const definitions = await registry.list();
+    expect(definitions).toHaveLength(1);
+    expect(definitions[0]).toMatchObject({ identifier: "spam", severity: "inform", defaultSetting: "hide" });
+  });
+
+  it("should reject invalid definitions", async () => {
+    await expect(registry.define({ ...spam, identifier: "Not Valid" })).rejects.toThrow("identifier");
+    await expect(registry.list()).resolves.toEqual([]);
+  });
+
+  it("should treat declared and global values as declared", async () => {
+    await registry.define(spam);
+
+    await expect(registry.isDeclared("spam")).resolves.toBe(true);
+    await expect(registry.isDeclared("!hide")).resolves.toBe(true);
+    await expect(registry.isDeclared("!typo")).resolves.toBe(false);
+    await expect(registry.isDeclared("rude")).resolves.toBe(false);
+
+    await expect(registry.remove("spam")).resolves.toBe(true);
+    await expect(registry.isDeclared("spam")).resolves.toBe(false);
+    await expect(registry.remove("spam")).resolves.toBe(false);
+  });
+
+  it("should export labeler service policies", async () => {
+    await registry.define(spam);
+    await registry.define({ ...spam, identifier: "nudity", blurs: "media", adultOnly: true });
+
+    const policies = await registry.getLabelerPolicies();
+    expect(policies.labelValues).toEqual(["spam", "nudity"]);
+    expect(policies.labelValueDefinitions[1]).toEqual({
+      ...spam,
+      identifier: "nudity",
+      blurs: "media",
+      adultOnly: true,
+      defaultSetting: "warn",
+    });
+  });
+});
+
+describe("LabelerServer label definition enforcement", () => {
+  const options = {
+    did: "did:web:test.com" as const,
+    signingKey: "0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef",
+    databaseName: DATABASE_NAME,
+  };
+  let server: LabelerServer;
+
+  beforeEach(async () => {
+    server = new LabelerServer({ ...options, mongoUri: getMongodUri(), enforceLabelDefinitions: true });
+    await server.connect();
+  });
+
+  afterEach(async () => {
+    const raw = await MongoClient.connect(getMongodUri());
+    await raw.db(DATABASE_NAME).dropDatabase();
+    await raw.close();
+    await server.close();
+  });
+
+  it("should only create labels with declared or global values", async () => {
+    await server.definitions.define(spam);
+
+    await expect(server.createLabel({ ver: 1, val: "spam", uri: "did:web:alice.com" })).resolves.toBeDefined();
+    await expect(server.createLabel({ ver: 1, val: "!hide", uri: "did:web:alice.com" })).resolves.toBeDefined();
+    await expect(server.createLabel({ ver: 1, val: "rude", uri: "did:web:alice.com" }))
+      .rejects.toThrow('Label value "rude" is not declared');
+    await expect(server.createLabel({ ver: 1, val: "!typo", uri: "did:web:alice.com" }))
+      .rejects.toThrow('Label value "!typo" is not declared');
+  });
+
+  it("should still allow negating labels whose value was removed", async () => {
+    await server.definitions.define(spam);
+    await server.createLabel({ ver: 1, val: "spam", uri: "did:web:alice.com" });
+    await server.definitions.remove("spam");
+
+    await expect(server.createLabel({ ver: 1, val: "spam", uri: "did:web:alice.com", neg: true })).resolves
+      .toMatchObject({ neg: true });
+  });
+
+  it("should require a MongoDB store", () => {
+    expect(() => new LabelerServer({ ...options, store: new MemoryLabelStore(), enforceLabelDefinitions: true }))
+      .toThrow("requires a MongoDB label store");
+    expect(() => new LabelerServer({ ...options, store: new MemoryLabelStore() }).definitions)
+      .toThrow("require a MongoDB label store");
+  });
+});
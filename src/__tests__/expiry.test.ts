@@ -0,0 +1,133 @@
+import { ExpirySweeper, type ExpiredLabel } from "../expiry.js";
+import { LabelerServer } from "../LabelerServer.js";
+import { MemoryLabelStore } from "../memory.js";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+const LABELER_DID = "did:web:labeler.test";
+const SIGNING_KEY = "0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef";
+const HOUR = 60 * 60 * 1000;
+
+describe("ExpirySweeper", () => {
+  let store: MemoryLabelStore;
+  let server: LabelerServer;
+  let now: Date;
+
+  /**
+   * Creates a label expiring the given number of hours from the current clock.
+   */
+  async function createExpiringLabel(val: string, hours: number): Promise<void> {
+    await server.createLabel({ ver: 1, val, uri: "did:plc:alice", exp: new Date(Date.now() + hours * HOUR).toISOString() });
+  }
+
+  beforeEach(async () => {
+    now = new Date();
+    store = new MemoryLabelStore();
+    server = new LabelerServer({ did: LABELER_DID, signingKey: SIGNING_KEY, store });
+    await server.connect();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it("should negate labels once they expire", async () => {
+    const sweeper = new ExpirySweeper(server, { now: () => now });
+    const notified: ExpiredLabel[][] = [];
+    sweeper.subscribe((expired) => {
+      notified.push(expired);
+    });
+    await createExpiringLabel("first", 1);
+    await createExpiringLabel("second", 2);
+    await server.createLabel({ ver: 1, val: "permanent", uri: "did:plc:alice" });
+
+    await expect(sweeper.sweep()).resolves.toEqual({ expired: [], errors: [] });
+
+    now = new Date(Date.now() + 1.5 * HOUR);
+    const sweptAt = Date.now();
+    const result = await sweeper.sweep();
+    expect(result.expired.map(({ label, negation }) => [label.val, negation?.neg])).toEqual([["first", true]]);
+    // Negations are created when the sweep runs and never expire
+    const [{ negation }] = result.expired;
+    expect(Date.parse(negation?.cts ?? "")).toBeGreaterThanOrEqual(sweptAt);
+    expect(negation).not.toHaveProperty("exp");
+    expect(notified).toEqual([result.expired]);
+    expect((await store.findLabels({ neg: true, allowExpired: true })).map(l => l.val)).toEqual(["first"]);
+
+    now = new Date(Date.now() + 3 * HOUR);
+    expect((await sweeper.sweep()).expired.map(({ label }) => label.val)).toEqual(["second"]);
+    await expect(sweeper.sweep()).resolves.toEqual({ expired: [], errors: [] });
+    expect(notified).toHaveLength(2);
+  });
+
+  it("should skip labels already superseded", async () => {
+    await createExpiringLabel("negated", 1);
+    await createExpiringLabel("expired", 1);
+    const [negated] = await store.findLabels({ val: "negated" });
+    await server.deleteLabel(negated._id);
+
+    now = new Date(Date.now() + 2 * HOUR);
+    const result = await new ExpirySweeper(server, { now: () => now, batchSize: 1 }).sweep();
+    expect(result.expired.map(({ label }) => label.val)).toEqual(["expired"]);
+
+    // A restarted sweeper finds the negations already written
+    await expect(new ExpirySweeper(server, { now: () => now }).sweep()).resolves.toEqual({ expired: [], errors: [] });
+  });
+
+  it("should sweep labels stored after a sweep that expire before it", async () => {
+    const sweeper = new ExpirySweeper(server, { now: () => now });
+    await createExpiringLabel("first", 1);
+
+    now = new Date(Date.now() + 2 * HOUR);
+    expect((await sweeper.sweep()).expired.map(({ label }) => label.val)).toEqual(["first"]);
+
+    await createExpiringLabel("late", 1);
+    const result = await sweeper.sweep();
+    expect(result.expired.map(({ label, negation }) => [label.val, negation?.neg])).toEqual([["late", true]]);
+    await expect(sweeper.sweep()).resolves.toEqual({ expired: [], errors: [] });
+  });
+
+  it("should only notify listeners without negations", async () => {
+    const sweeper = new ExpirySweeper(server, { now: () => now, negate: false });
+    const listener = vi.fn();
+    const unsubscribe = sweeper.subscribe(listener);
+    await createExpiringLabel("expired", 1);
+
+    now = new Date(Date.now() + 2 * HOUR);
+    const result = await sweeper.sweep();
+    expect(result.expired).toEqual([{ label: expect.objectContaining({ val: "expired" }) }]);
+    expect(listener).toHaveBeenCalledWith(result.expired);
+    expect(await store.countLabels({ allowExpired: true })).toBe(1);
+
+    unsubscribe();
+    now = new Date(Date.now() + 3 * HOUR);
+    await createExpiringLabel("later", 2.5);
+    await sweeper.sweep();
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("should sweep in the background until stopped", async () => {
+    vi.useFakeTimers({ toFake: ["setInterval", "clearInterval"] });
+    try {
+      const sweeper = new ExpirySweeper(server, { now: () => now, interval: 1000 });
+      const listener = vi.fn();
+      sweeper.subscribe(listener);
+      await createExpiringLabel("expired", 1);
+      now = new Date(Date.now() + 2 * HOUR);
+
+      sweeper.start();
+      expect(sweeper.running).toBe(true);
+      await vi.advanceTimersByTimeAsync(1000);
+      await sweeper.sweep();
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      await sweeper.stop();
+      expect(sweeper.running).toBe(false);
+      await createExpiringLabel("later", 0.5);
+      now = new Date(Date.now() + 3 * HOUR);
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(listener).toHaveBeenCalledTimes(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
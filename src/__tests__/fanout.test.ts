@@ -0,0 +1,108 @@
+import { MongoMemoryReplSet } from "mongodb-memory-server";
+import { cborDecode } from "@atproto/common";
+import { WebSocket } from "ws";
+import { LabelerServer } from "../LabelerServer.js";
+import type { LabelerOptions } from "../LabelerServer.js";
+import { MemoryLabelStore } from "../memory.js";
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from "vitest";
+
+const SETUP_TIMEOUT = 120000;
+
+interface Frame { op: string; tag?: string; body: any }
+
+describe("Change Stream Fan-out", () => {
+  // Change streams need a replica set, unlike the standalone server shared by other tests
+  let replSet: MongoMemoryReplSet;
+  let options: LabelerOptions;
+  const servers: LabelerServer[] = [];
+  const sockets: WebSocket[] = [];
+
+  beforeAll(async () => {
+    replSet = await MongoMemoryReplSet.create({ replSet: { count: 1, storageEngine: "wiredTiger" } });
+    options = {
+      did: "did:web:labeler.test",
+      signingKey: "0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef",
+      mongoUri: replSet.getUri(),
+      databaseName: "fanout_test",
+    };
+  }, SETUP_TIMEOUT);
+
+  afterEach(async () => {
+    for (const socket of sockets.splice(0)) {
+      socket.close();
+    }
+    for (const server of servers.splice(0)) {
+      await server.stop();
+      await server.close();
+    }
+  });
+
+  afterAll(async () => {
+    await replSet.stop();
+  });
+
+  async function startServer(id: string): Promise<{ server: LabelerServer; address: string }> {
+    const server = new LabelerServer({ ...options, changeStream: { id } });
+    servers.push(server);
+    await server.connect();
+    return { server, address: await server.start(0) };
+  }
+
+  async function subscribe(address: string): Promise<Frame[]> {
+    const socket = new WebSocket(`${address.replace("http", "ws")}/xrpc/com.atproto.label.subscribeLabels`);
+    sockets.push(socket);
+    const frames: Frame[] = [];
+    socket.on("message", (data: Buffer) => frames.push(cborDecode(new Uint8Array(data)) as Frame));
+    await new Promise((resolve) => socket.once("open", resolve));
+    return frames;
+  }
+
+  const waitFor = (predicate: () => boolean): Promise<void> => vi.waitFor(() => expect(predicate()).toBe(true));
+
+  it("should push labels stored by one instance to the subscribers of every instance", async () => {
+    const first = await startServer("first");
+    const second = await startServer("second");
+    const firstFrames = await subscribe(first.address);
+    const secondFrames = await subscribe(second.address);
+
+    await first.server.createLabel({ ver: 1, val: "spam", uri: "did:plc:alice" });
+    await second.server.createLabel({ ver: 1, val: "rude", uri: "did:plc:alice" });
+
+    await waitFor(() => firstFrames.length === 2 && secondFrames.length === 2);
+    for (const frames of [firstFrames, secondFrames]) {
+      expect(frames.map(f => [f.tag, f.body.labels[0].val])).toEqual([["#labels", "spam"], ["#labels", "rude"]]);
+    }
+  });
+
+  it("should resume from the stored token after a restart", async () => {
+    const writer = await startServer("writer");
+    const broadcasts = async (server: LabelerServer): Promise<string[]> => {
+      const vals: string[] = [];
+      vi.spyOn(server as unknown as { _broadcastLabel: (label: { val: string }) => void }, "_broadcastLabel")
+        .mockImplementation((label) => vals.push(label.val));
+      await server.start(0);
+      return vals;
+    };
+
+    const reader = new LabelerServer({ ...options, changeStream: { id: "reader" } });
+    servers.push(reader);
+    await reader.connect();
+    const before = await broadcasts(reader);
+    await writer.server.createLabel({ ver: 1, val: "before", uri: "did:plc:alice" });
+    await waitFor(() => before.length === 1);
+    await reader.stop();
+
+    await writer.server.createLabel({ ver: 1, val: "during", uri: "did:plc:alice" });
+    const restarted = new LabelerServer({ ...options, changeStream: { id: "reader" } });
+    servers.push(restarted);
+    await restarted.connect();
+    const after = await broadcasts(restarted);
+    await waitFor(() => after.length === 1);
+    expect([...before, ...after]).toEqual(["before", "during"]);
+  });
+
+  it("should require a MongoDB store", () => {
+    expect(() => new LabelerServer({ ...options, store: new MemoryLabelStore(), changeStream: { id: "memory" } }))
+      .toThrow("Change stream fan-out requires a MongoDB label store");
+  });
+});
@@ -0,0 +1,97 @@
+import { LabelerServer } from "../LabelerServer.js";
+import { MemoryLabelStore } from "../memory.js";
+import type { SavedLabel } from "../util/types.js";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+const LABELER_DID = "did:web:labeler.test";
+const MODERATOR_DID = "did:web:mod.test";
+const SIGNING_KEY = "0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef";
+
+describe("Label Hooks", () => {
+  let store: MemoryLabelStore;
+  let server: LabelerServer;
+
+  beforeEach(async () => {
+    store = new MemoryLabelStore();
+    server = new LabelerServer({ did: LABELER_DID, signingKey: SIGNING_KEY, store });
+    await server.connect();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it("should let beforeCreate hooks change or veto labels", async () => {
+    server.on("beforeCreate", (data) => ({ ...data, val: data.val.toLowerCase() }));
+    server.on("beforeCreate", (data) => data.val !== "banned" && undefined);
+
+    await expect(server.createLabel({ ver: 1, val: "SPAM", uri: "did:plc:alice" }))
+      .resolves.toMatchObject({ val: "spam" });
+    await expect(server.createLabel({ ver: 1, val: "Banned", uri: "did:plc:alice" }))
+      .rejects.toThrow("Label authorization failed: Label vetoed by a beforeCreate hook");
+
+    const result = await server.createLabels([
+      { ver: 1, val: "BANNED", uri: "did:plc:alice" },
+      { ver: 1, val: "Rude", uri: "did:plc:alice" },
+    ]);
+    expect(result.labels.map(({ index, label }) => [index, label.val])).toEqual([[1, "rude"]]);
+    expect(result.errors.map(({ index }) => index)).toEqual([0]);
+    expect((await store.findLabels()).map(l => l.val)).toEqual(["spam", "rude"]);
+  });
+
+  it("should run after hooks once labels are stored", async () => {
+    const afterCreate = vi.fn<(label: SavedLabel, context: unknown) => void>();
+    const afterNegate = vi.fn();
+    const afterReverse = vi.fn();
+    server.on("afterCreate", afterCreate);
+    server.on("afterNegate", afterNegate);
+    server.on("afterReverse", afterReverse);
+    const context = { actor: MODERATOR_DID, comment: "Spam" } as const;
+
+    await server.createLabel({ ver: 1, val: "spam", uri: "did:plc:alice" }, false, context);
+    await server.createLabels([{ ver: 1, val: "rude", uri: "did:plc:alice" }]);
+    expect(afterCreate.mock.calls.map(([label, ctx]) => [label.val, label.seq, ctx])).toEqual([
+      ["spam", 1, context],
+      ["rude", 2, {}],
+    ]);
+
+    const [spam] = await store.findLabels({ val: "spam" });
+    await server.deleteLabel(spam._id, context);
+    expect(afterNegate).toHaveBeenCalledWith(expect.objectContaining({ val: "spam", neg: true, seq: 3 }), context);
+
+    await server.reverseLabelNegation(spam._id);
+    expect(afterReverse).not.toHaveBeenCalled();
+    await server.reverseLabelNegation(spam._id, true);
+    expect(afterReverse).toHaveBeenCalledWith(expect.objectContaining({ _id: spam._id, neg: true }), {});
+  });
+
+  it("should report validation errors and isolate failing hooks", async () => {
+    const onValidationError = vi.fn();
+    server.on("onValidationError", onValidationError);
+    const error = vi.spyOn(console, "error").mockImplementation(() => undefined);
+    const remove = server.on("afterCreate", () => {
+      throw new Error("Webhook down");
+    });
+
+    try {
+      await expect(server.createLabel({ ver: 1, val: "", uri: "did:plc:alice" })).rejects.toThrow("Label validation failed");
+      expect(onValidationError).toHaveBeenCalledWith(
+        expect.objectContaining({ name: "AtProtocolValidationError" }),
+        { ver: 1, val: "", uri: "did:plc:alice" },
+        {},
+      );
+
+      await expect(server.createLabel({ ver: 1, val: "spam", uri: "did:plc:alice" })).resolves.toMatchObject({ val: "spam" });
+      expect(error).toHaveBeenCalledWith("Failed to run afterCreate hook:", expect.any(Error));
+
+      remove();
+      server.off("onValidationError", onValidationError);
+      await server.createLabel({ ver: 1, val: "rude", uri: "did:plc:alice" });
+      await server.createLabel({ ver: 1, val: "", uri: "did:plc:alice" }).catch(() => undefined);
+      expect(error).toHaveBeenCalledTimes(1);
+      expect(onValidationError).toHaveBeenCalledTimes(1);
+    } finally {
+      error.mockRestore();
+    }
+  });
+});
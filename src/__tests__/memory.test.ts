@@ -0,0 +1,178 @@
+import { MemoryLabelStore } from "../memory.js";
+import { LabelerServer } from "../LabelerServer.js";
+import type { UnsignedLabel } from "../util/types.js";
+import { describe, it, expect, beforeEach } from "vitest";
+
+const label: UnsignedLabel & { sig: ArrayBuffer } = {
+  src: "did:example:123",
+  uri: "at://did:example:123/app.bsky.feed.post/1",
+  val: "test",
+  neg: false,
+  cts: new Date().toISOString(),
+  ver: 1,
+  sig: new ArrayBuffer(64),
+};
+
+describe("MemoryLabelStore", () => {
+  let store: MemoryLabelStore;
+
+  beforeEach(async () => {
+    store = new MemoryLabelStore();
+    await store.connect();
+  });
+
+  it("should assign IDs and increasing sequence numbers", async () => {
+    const first = await store.saveLabel(label);
+    const second = await store.saveLabel({ ...label, neg: true });
+
+    expect(second.seq).toBe(first.seq + 1);
+    expect(first._id.equals(second._id)).toBe(false);
+    await expect(store.findOne({ _id: second._id })).resolves.toMatchObject({ neg: true, seq: second.seq });
+  });
+
+  it("should filter, sort and paginate labels", async () => {
+    await store.saveLabel({ ...label, val: "a" });
+    await store.saveLabel({ ...label, val: "b", uri: "did:example:456" });
+    await store.saveLabel({ ...label, val: "c", src: "did:example:789" });
+
+    const byPrefix = await store.findLabels({ uri: { $regex: "^at://did:example:123/" } });
+    expect(byPrefix.map(l => l.val)).toEqual(["a", "c"]);
+
+    const bySource = await store.findLabels({ $and: [{ src: { $in: ["did:example:789"] } }] });
+    expect(bySource.map(l => l.val)).toEqual(["c"]);
+
+    const page = await store.findLabels({}, { sort: { seq: -1 }, skip: 1, limit: 1 });
+    expect(page.map(l => l.val)).toEqual(["b"]);
+
+    await expect(store.countLabels({ val: { $ne: "a" } })).resolves.toBe(2);
+  });
+
+  it("should leave out expired labels unless allowed", async () => {
+    await store.saveLabel({ ...label, val: "current" });
+    await store.saveLabel({ ...label, val: "expired", exp: new Date(Date.now() - 1000).toISOString() });
+
+    expect((await store.findLabels()).map(l => l.val)).toEqual(["current"]);
+    await expect(store.countLabels({ allowExpired: true })).resolves.toBe(2);
+    expect(await store.getLabelsAfterCursor(0, 10)).toHaveLength(2);
+  });
+
+  it("should save batches in order, stopping at the first failure unless unordered", async () => {
+    const batch = [{ ...label, val: "a" }, { ...label, val: "b", cts: "not a date" }, { ...label, val: "c" }];
+
+    const ordered = await store.saveLabels(batch);
+    expect(ordered.saved.map(({ index, label }) => [index, label.seq])).toEqual([[0, 1]]);
+    expect(ordered.errors.map(({ index }) => index)).toEqual([1, 2]);
+
+    const unordered = await store.saveLabels(batch, { ordered: false });
+    expect(unordered.saved.map(({ index, label }) => [index, label.seq])).toEqual([[0, 2], [2, 3]]);
+    expect(unordered.errors.map(({ index }) => index)).toEqual([1]);
+  });
+
+  it("should update stored labels", async () => {
+    const saved = await store.saveLabel(label);
+
+    await expect(store.updateLabel(saved._id, { ...label, val: "updated" })).resolves.toBe(true);
+    await expect(store.findOne({ _id: saved._id })).resolves.toMatchObject({ val: "updated", seq: saved.seq });
+  });
+
+  it("should reject unsupported query operators", async () => {
+    await store.saveLabel(label);
+
+    await expect(store.findLabels({ $where: "true" })).rejects.toThrow("Unsupported query operator: $where");
+  });
+
+  it("should resolve active labels from the label history", async () => {
+    await store.saveLabel({ ...label, val: "a", cts: "2024-01-01T00:00:00.000Z" });
+    await store.saveLabel({ ...label, val: "a", neg: true, cts: "2024-01-02T00:00:00.000Z" });
+    await store.saveLabel({ ...label, val: "b", cts: "2024-01-02T00:00:00.000Z" });
+    await store.saveLabel({ ...label, val: "b", neg: true, cts: "2024-01-01T00:00:00.000Z" });
+    await store.saveLabel({ ...label, val: "c", exp: new Date(Date.now() - 1000).toISOString() });
+
+    const active = await store.getActiveLabels(label.uri);
+    expect(active.map(l => l.val)).toEqual(["b"]);
+    await expect(store.getActiveLabels(label.uri, { src: "did:example:other" })).resolves.toEqual([]);
+  });
+
+  it("should back a LabelerServer without MongoDB", async () => {
+    const server = new LabelerServer({
+      did: "did:web:test.com",
+      signingKey: "0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef",
+      store,
+    });
+    await server.connect();
+
+    await server.createLabel({ ver: 1, val: "stored", uri: "did:web:alice.com" });
+    const [stored] = await store.findLabels({ val: "stored" });
+    await server.deleteLabel(stored._id);
+
+    const response = await server.app.inject({
+      method: "GET",
+      url: "/xrpc/com.atproto.label.queryLabels",
+      query: { uriPatterns: "did:web:alice.com" },
+    });
+    expect(response.json().labels.map((l: { neg: boolean }) => l.neg)).toEqual([false, true]);
+    await expect(server.verifyStoredLabels()).resolves.toMatchObject({ checked: 2, invalid: [] });
+    expect(() => server.events).toThrow("requires a MongoDB label store");
+    await server.close();
+  });
+
+  it("should create label batches on a LabelerServer", async () => {
+    const server = new LabelerServer({
+      did: "did:web:test.com",
+      signingKey: "0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef",
+      store,
+    });
+    await server.connect();
+
+    const result = await server.createLabels([
+      { ver: 1, val: "one", uri: "did:web:alice.com" },
+      { ver: 2, val: "two", uri: "did:web:alice.com" },
+      { ver: 1, val: "three", uri: "did:web:alice.com" },
+    ]);
+
+    expect(result.labels.map(({ index, label }) => [index, label.val])).toEqual([[0, "one"], [2, "three"]]);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toMatchObject({ index: 1 });
+    expect(result.errors[0].error.message).toContain("Label version must be 1");
+    expect((await store.findLabels()).map(l => [l.val, l.seq])).toEqual([["one", 1], ["three", 2]]);
+    await server.close();
+  });
+
+  it("should return the stored label for repeated idempotency keys", async () => {
+    const server = new LabelerServer({
+      did: "did:web:test.com",
+      signingKey: "0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef",
+      store,
+    });
+    await server.connect();
+
+    const first = await server.createLabel({ ver: 1, val: "spam", uri: "did:web:alice.com", idempotencyKey: "job-1" });
+    const retry = await server.createLabel({ ver: 1, val: "spam", uri: "did:web:alice.com", idempotencyKey: "job-1" });
+    expect(retry).toEqual(first);
+    expect(retry).not.toHaveProperty("idempotencyKey");
+    await expect(server.createLabel({ ver: 1, val: "rude", uri: "did:web:alice.com", idempotencyKey: "job-1" }))
+      .rejects.toThrow('Idempotency key "job-1" is already used by a different label');
+    await expect(server.createLabel({ ver: 1, val: "spam", uri: "did:web:alice.com", idempotencyKey: "" }))
+      .rejects.toThrow("Idempotency key must be a string");
+
+    const result = await server.createLabels([
+      { ver: 1, val: "spam", uri: "did:web:alice.com", idempotencyKey: "job-1" },
+      { ver: 1, val: "rude", uri: "did:web:alice.com", idempotencyKey: "job-2" },
+      { ver: 1, val: "rude", uri: "did:web:alice.com", idempotencyKey: "job-2" },
+      { ver: 1, val: "spam", uri: "did:web:bob.com" },
+    ]);
+    expect(result.errors).toEqual([]);
+    expect(result.labels.map(({ index, label, seq }) => [index, label.val, seq])).toEqual([
+      [0, "spam", 1],
+      [1, "rude", 2],
+      [2, "rude", 2],
+      [3, "spam", 3],
+    ]);
+    expect((await store.findLabels()).map(l => [l.val, l.idempotencyKey])).toEqual([
+      ["spam", "job-1"],
+      ["rude", "job-2"],
+      ["spam", undefined],
+    ]);
+    await server.close();
+  });
+});
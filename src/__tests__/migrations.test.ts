@@ -0,0 +1,205 @@
+import { Binary, MongoClient } from "mongodb";
+import { LabelerServer } from "../LabelerServer.js";
+import { MemoryLabelStore } from "../memory.js";
+import { MigrationRunner, type Migration } from "../migrations.js";
+import { MongoDBClient } from "../mongodb.js";
+import { getMongodUri } from "../../vitest.setup";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+const DATABASE_NAME = "migrations_test";
+const LABELER_DID = "did:web:labeler.test";
+const SIGNING_KEY = "0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef";
+
+describe("Migrations", () => {
+  let server: LabelerServer;
+
+  beforeEach(async () => {
+    server = new LabelerServer({
+      did: LABELER_DID,
+      signingKey: SIGNING_KEY,
+      mongoUri: getMongodUri(),
+      databaseName: DATABASE_NAME,
+      schemaValidation: "off",
+    });
+    await server.connect();
+    // The empty database is marked as migrated on connect; start from one stored by an older version
+    await (server.db as MongoDBClient).collection("migrations").deleteMany({});
+  });
+
+  afterEach(async () => {
+    const raw = await MongoClient.connect(getMongodUri());
+    await raw.db(DATABASE_NAME).dropDatabase();
+    await raw.close();
+    await server.close();
+  });
+
+  it("should normalize dates and signatures of legacy labels", async () => {
+    const sig = new Uint8Array([1, 2, 3]);
+    const labels = (server.db as MongoDBClient).collection("labels");
+    await labels.insertMany([
+      { ver: 1, val: "spam", uri: "did:plc:alice", src: LABELER_DID, seq: 1,
+        cts: new Date("2024-01-01T00:00:00Z"), exp: null, sig: Buffer.from(sig).toString("base64") },
+      { ver: 1, val: "rude", uri: "did:plc:alice", src: LABELER_DID, seq: 2,
+        cts: "2024-01-01T02:00:00+02:00", exp: "2030-01-01T00:00:00Z", sig: { 0: 1, 1: 2, 2: 3 } },
+    ]);
+
+    await expect(server.migrate()).resolves.toEqual({ applied: [1, 2, 3], reverted: [] });
+    const migrated = await labels.find({}, { sort: { seq: 1 } }).toArray();
+    expect(migrated.map(({ cts, exp }) => [cts, exp])).toEqual([
+      [new Date("2024-01-01T00:00:00.000Z"), undefined],
+      [new Date("2024-01-01T00:00:00.000Z"), new Date("2030-01-01T00:00:00.000Z")],
+    ]);
+    for (const label of migrated) {
+      expect(label.sig).toBeInstanceOf(Binary);
+    }
+    expect([...(migrated[0].sig as Binary).value()]).toEqual([1, 2, 3]);
+    // The label whose cts was rewritten is re-signed
+    const report = await server.verifyStoredLabels();
+    expect(report.invalid.map(({ label }) => label.val)).toEqual(["spam"]);
+
+    await expect(server.migrate()).resolves.toEqual({ applied: [], reverted: [] });
+    const status = await server.migrations.status();
+    expect(status.map(({ version, name, appliedAt }) => [version, name, typeof appliedAt])).toEqual([
+      [1, "normalize-label-dates", "string"],
+      [2, "normalize-label-signatures", "string"],
+      [3, "store-label-dates-as-dates", "string"],
+    ]);
+
+    await expect(server.migrate(2)).resolves.toEqual({ applied: [], reverted: [3] });
+    const reverted = await labels.find({}, { sort: { seq: 1 } }).toArray();
+    expect(reverted.map(({ cts }) => cts)).toEqual(["2024-01-01T00:00:00.000Z", "2024-01-01T00:00:00.000Z"]);
+    await expect(server.migrate(0)).rejects.toThrow("Failed to migrate labels");
+  });
+
+  it("should apply and revert migrations in order", async () => {
+    const steps: string[] = [];
+    const migration = (version: number): Migration => ({
+      version,
+      name: `step-${version}`,
+      up: async () => void steps.push(`up ${version}`),
+      down: async () => void steps.push(`down ${version}`),
+    });
+    const runner = new MigrationRunner(server.db as MongoDBClient, { migrations: [migration(2), migration(1), migration(3)] });
+
+    await expect(runner.migrate(2)).resolves.toEqual({ applied: [1, 2], reverted: [] });
+    await expect(runner.migrate()).resolves.toEqual({ applied: [3], reverted: [] });
+    await expect(runner.migrate(1)).resolves.toEqual({ applied: [], reverted: [3, 2] });
+    expect(steps).toEqual(["up 1", "up 2", "up 3", "down 3", "down 2"]);
+    await expect(runner.migrate(4)).rejects.toThrow("Unknown migration version 4");
+  });
+
+  it("should not run while another runner holds the lock", async () => {
+    let release!: () => void;
+    const blocked = new Promise<void>((resolve) => (release = resolve));
+    const slow: Migration = { version: 1, name: "slow", up: () => blocked };
+    const first = new MigrationRunner(server.db as MongoDBClient, { migrations: [slow] });
+    const second = new MigrationRunner(server.db as MongoDBClient, { migrations: [slow] });
+
+    const running = first.migrate();
+    const locks = (server.db as MongoDBClient).collection("migrations");
+    await expect.poll(() => locks.countDocuments({ owner: { $exists: true } })).toBe(1);
+    await expect(second.migrate()).rejects.toThrow("Migrations are already running in another process");
+    release();
+    await expect(running).resolves.toEqual({ applied: [1], reverted: [] });
+    await expect(second.migrate()).resolves.toEqual({ applied: [], reverted: [] });
+  });
+
+  it("should refuse migrations that change signed fields without a signer", async () => {
+    const runner = new MigrationRunner(server.db as MongoDBClient);
+    await expect(runner.migrate()).rejects.toThrow(
+      "Migration 1 (normalize-label-dates) changes signed label fields and needs a signer",
+    );
+    expect((await runner.status()).every(({ appliedAt }) => appliedAt === undefined)).toBe(true);
+  });
+
+  it("should store string timestamps as dates on connect, so that they can be queried", async () => {
+    const labels = (server.db as MongoDBClient).collection("labels");
+    const sig = Buffer.from([1, 2, 3]);
+    await labels.insertMany([
+      { ver: 1, val: "spam", uri: "did:plc:alice", src: LABELER_DID, seq: 1, cts: "2024-01-01T00:00:00.000Z", sig },
+      { ver: 1, val: "rude", uri: "did:plc:alice", src: LABELER_DID, seq: 2, cts: "2024-01-02T00:00:00.000Z",
+        exp: "2099-01-01T00:00:00.000Z", sig },
+      { ver: 1, val: "old", uri: "did:plc:alice", src: LABELER_DID, seq: 3, cts: "2024-01-03T00:00:00.000Z",
+        exp: "2024-02-01T00:00:00.000Z", sig },
+    ]);
+
+    const other = new LabelerServer({
+      did: LABELER_DID,
+      signingKey: SIGNING_KEY,
+      mongoUri: getMongodUri(),
+      databaseName: DATABASE_NAME,
+      schemaValidation: "off",
+    });
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    try {
+      await other.connect();
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining("3 label migration(s) are pending"));
+      expect((await labels.findOne({ seq: 2 }))?.exp).toEqual(new Date("2099-01-01T00:00:00.000Z"));
+
+      const vals = async (query: Parameters<LabelerServer["queryLabels"]>[0]): Promise<string[]> =>
+        (await other.queryLabels(query)).labels.map(({ val }) => val);
+      await expect(vals({})).resolves.toEqual(["spam", "rude"]);
+      await expect(vals({ since: "2024-01-01T12:00:00.000Z" })).resolves.toEqual(["rude"]);
+      await expect(vals({ until: "2024-01-01T12:00:00.000Z" })).resolves.toEqual(["spam"]);
+      await expect(vals({ allowExpired: true })).resolves.toEqual(["spam", "rude", "old"]);
+      expect((await other.getActiveLabels("did:plc:alice")).map(({ val }) => val)).toEqual(["spam", "rude"]);
+    } finally {
+      warn.mockRestore();
+      await other.close();
+    }
+  });
+
+  it("should store timestamps as dates on concurrent connects without invalidating signatures", async () => {
+    await server.createLabel({ ver: 1, val: "spam", uri: "did:plc:alice" });
+    await server.createLabel({ ver: 1, val: "rude", uri: "did:plc:alice", exp: "2099-01-01T00:00:00.000Z" });
+    const client = server.db as MongoDBClient;
+    const labels = client.collection("labels");
+    for (const field of ["cts", "exp"]) {
+      const timestamp = { $dateToString: { date: `$${field}`, format: "%Y-%m-%dT%H:%M:%S.%LZ" } };
+      await labels.updateMany({ [field]: { $type: "date" } }, [{ $set: { [field]: timestamp } }]);
+    }
+    // Another instance is running migrations
+    let release!: () => void;
+    const blocked = new Promise<void>((resolve) => (release = resolve));
+    const running = new MigrationRunner(client, { migrations: [{ version: 1, name: "slow", up: () => blocked }] }).migrate();
+    await expect.poll(() => client.collection("migrations").countDocuments({ owner: { $exists: true } })).toBe(1);
+
+    const instances = [1, 2].map(() => new LabelerServer({
+      did: LABELER_DID,
+      signingKey: SIGNING_KEY,
+      mongoUri: getMongodUri(),
+      databaseName: DATABASE_NAME,
+      schemaValidation: "off",
+    }));
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    try {
+      await Promise.all(instances.map(instance => instance.connect()));
+      const stored = await labels.find({}, { sort: { seq: 1 } }).toArray();
+      expect(stored.map(({ cts, exp }) => [cts instanceof Date, exp === undefined || exp instanceof Date]))
+        .toEqual([[true, true], [true, true]]);
+      await expect(instances[0].verifyStoredLabels()).resolves.toMatchObject({ checked: 2, invalid: [] });
+    } finally {
+      release();
+      await running;
+      warn.mockRestore();
+      await Promise.all(instances.map(instance => instance.close()));
+    }
+  });
+
+  it("should mark a database without labels as migrated on connect", async () => {
+    const other = new LabelerServer({ did: LABELER_DID, signingKey: SIGNING_KEY, mongoUri: getMongodUri(), databaseName: DATABASE_NAME });
+    await other.connect();
+    try {
+      expect((await other.migrations.status()).every(({ appliedAt }) => appliedAt !== undefined)).toBe(true);
+      await expect(other.migrate()).resolves.toEqual({ applied: [], reverted: [] });
+    } finally {
+      await other.close();
+    }
+  });
+
+  it("should require a MongoDB store", async () => {
+    const memory = new LabelerServer({ did: LABELER_DID, signingKey: SIGNING_KEY, store: new MemoryLabelStore() });
+    expect(() => memory.migrations).toThrow("Migrations require a MongoDB label store");
+    await expect(memory.migrate()).rejects.toThrow("Migrations require a MongoDB label store");
+  });
+});
@@ -0,0 +1,205 @@
+import { MongoClient, ObjectId } from "mongodb";
+import { Secp256k1Keypair } from "@atproto/crypto";
+import { LabelerServer } from "../LabelerServer.js";
+import { MongoDBClient } from "../mongodb.js";
+import { MemoryLabelStore } from "../memory.js";
+import { ReportManager } from "../reports.js";
+import type { ModerationSubject } from "../util/types.js";
+import { getMongodUri } from "../../vitest.setup";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+const DATABASE_NAME = "reports_test";
+const LABELER_DID = "did:web:labeler.test";
+const REPORTER_DID = "did:web:reporter.test";
+const MODERATOR_DID = "did:web:mod.test";
+const SIGNING_KEY = "0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef";
+const CREATE_REPORT = "com.atproto.moderation.createReport";
+
+const post: ModerationSubject = {
+  $type: "com.atproto.repo.strongRef",
+  uri: "at://did:plc:alice/app.bsky.feed.post/3jxtb5w2g622y",
+  cid: "bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi",
+};
+const account: ModerationSubject = { $type: "com.atproto.admin.defs#repoRef", did: "did:plc:alice" };
+
+describe("ReportManager", () => {
+  let client: MongoDBClient;
+  let reports: ReportManager;
+
+  beforeEach(async () => {
+    client = new MongoDBClient({ uri: getMongodUri(), databaseName: DATABASE_NAME });
+    await client.connect();
+    reports = new ReportManager(client);
+    await reports.init();
+  });
+
+  afterEach(async () => {
+    const raw = await MongoClient.connect(getMongodUri());
+    await raw.db(DATABASE_NAME).dropDatabase();
+    await raw.close();
+    await client.close();
+  });
+
+  it("should store reports with increasing IDs", async () => {
+    const first = await reports.create({
+      reasonType: "com.atproto.moderation.defs#reasonSpam",
+      reason: "Selling followers",
+      subject: post,
+      reportedBy: REPORTER_DID,
+    });
+    const second = await reports.create({
+      reasonType: "com.atproto.moderation.defs#reasonRude",
+      subject: account,
+      reportedBy: REPORTER_DID,
+    });
+
+    expect(second.id).toBe(first.id + 1);
+    expect(first).toMatchObject({ status: "open", subjectUri: post.uri, labelIds: [] });
+    await expect(reports.get(second.id)).resolves.toMatchObject({ subjectUri: "did:plc:alice" });
+  });
+
+  it("should reject invalid reports", async () => {
+    await expect(reports.create({ reasonType: "", subject: account, reportedBy: REPORTER_DID }))
+      .rejects.toThrow("reasonType");
+    await expect(reports.create({ reasonType: "spam", subject: { ...post, cid: "invalid" }, reportedBy: REPORTER_DID }))
+      .rejects.toThrow("Invalid CID");
+    await expect(reports.list()).resolves.toEqual([]);
+  });
+
+  it("should list, assign, resolve and link reports", async () => {
+    const first = await reports.create({ reasonType: "spam", subject: post, reportedBy: REPORTER_DID });
+    const second = await reports.create({ reasonType: "spam", subject: account, reportedBy: REPORTER_DID });
+
+    await expect(reports.assign(first.id, MODERATOR_DID)).resolves.toMatchObject({ assignee: MODERATOR_DID });
+    expect((await reports.list({ assignee: MODERATOR_DID })).map(r => r.id)).toEqual([first.id]);
+
+    const labelId = new ObjectId();
+    const resolved = await reports.resolve(first.id, { resolvedBy: MODERATOR_DID, comment: "Labeled", labelIds: [labelId] });
+    expect(resolved).toMatchObject({ status: "resolved", resolvedBy: MODERATOR_DID, resolution: "Labeled" });
+    expect(resolved?.labelIds.map(String)).toEqual([String(labelId)]);
+    await expect(reports.resolve(first.id, { resolvedBy: MODERATOR_DID })).resolves.toBeNull();
+
+    const otherLabelId = new ObjectId();
+    const linked = await reports.linkLabels(first.id, [labelId, otherLabelId]);
+    expect(linked?.labelIds.map(String)).toEqual([String(labelId), String(otherLabelId)]);
+
+    expect((await reports.list({ status: "open" })).map(r => r.id)).toEqual([second.id]);
+    expect((await reports.list({ subject: post.uri })).map(r => r.id)).toEqual([first.id]);
+    expect((await reports.list({ cursor: first.id })).map(r => r.id)).toEqual([second.id]);
+    await expect(reports.assign(second.id, null)).resolves.not.toHaveProperty("assignee");
+  });
+});
+
+describe("createReport", () => {
+  let keypair: Secp256k1Keypair;
+  let server: LabelerServer;
+
+  /**
+   * Mints a service auth token for the reporter, as their PDS would.
+   */
+  async function createServiceJwt(payload: Record<string, unknown> = {}): Promise<string> {
+    const header = Buffer.from(JSON.stringify({ typ: "JWT", alg: "ES256K" })).toString("base64url");
+    const body = Buffer.from(JSON.stringify({
+      iss: REPORTER_DID,
+      aud: LABELER_DID,
+      lxm: CREATE_REPORT,
+      exp: Math.floor(Date.now() / 1000) + 60,
+      ...payload,
+    })).toString("base64url");
+    const sig = await keypair.sign(Buffer.from(`${header}.${body}`, "utf8"));
+    return `${header}.${body}.${Buffer.from(sig).toString("base64url")}`;
+  }
+
+  beforeEach(async () => {
+    keypair = await Secp256k1Keypair.create();
+    const didKey = keypair.did();
+    server = new LabelerServer({
+      did: LABELER_DID,
+      signingKey: SIGNING_KEY,
+      mongoUri: getMongodUri(),
+      databaseName: DATABASE_NAME,
+      didResolver: async (did) => ({
+        id: did,
+        verificationMethod: [{
+          id: "#atproto",
+          type: "Multikey",
+          controller: did,
+          publicKeyMultibase: didKey.slice("did:key:".length),
+        }],
+      }),
+    });
+    await server.connect();
+  });
+
+  afterEach(async () => {
+    const raw = await MongoClient.connect(getMongodUri());
+    await raw.db(DATABASE_NAME).dropDatabase();
+    await raw.close();
+    await server.close();
+  });
+
+  it("should store reports from authenticated users", async () => {
+    const response = await server.app.inject({
+      method: "POST",
+      url: `/xrpc/${CREATE_REPORT}`,
+      headers: { authorization: `Bearer ${await createServiceJwt()}` },
+      payload: { reasonType: "com.atproto.moderation.defs#reasonSpam", reason: "Spam", subject: post },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toMatchObject({ id: 1, reasonType: "com.atproto.moderation.defs#reasonSpam", subject: post, reportedBy: REPORTER_DID });
+    await expect(server.reports.get(1)).resolves.toMatchObject({ reason: "Spam", status: "open" });
+  });
+
+  it("should reject unauthenticated and invalid reports", async () => {
+    const unauthenticated = await server.app.inject({
+      method: "POST",
+      url: `/xrpc/${CREATE_REPORT}`,
+      payload: { reasonType: "spam", subject: account },
+    });
+    expect(unauthenticated.statusCode).toBe(401);
+
+    const invalid = await server.app.inject({
+      method: "POST",
+      url: `/xrpc/${CREATE_REPORT}`,
+      headers: { authorization: `Bearer ${await createServiceJwt()}` },
+      payload: { reasonType: "spam", subject: { $type: "com.atproto.admin.defs#repoRef", did: "alice" } },
+    });
+    expect(invalid.statusCode).toBe(400);
+    await expect(server.reports.list()).resolves.toEqual([]);
+  });
+
+  it("should reject malformed report bodies as invalid requests", async () => {
+    const token = await createServiceJwt();
+    for (const payload of [
+      { reasonType: "spam", subject: { $type: "com.atproto.repo.strongRef" } },
+      { reasonType: "spam", subject: { $type: "com.atproto.repo.strongRef", uri: "at://did:plc:alice/app.bsky.feed.post/3jxtb5w2g622y", cid: 1 } },
+      { reasonType: "spam", subject: { $type: "com.atproto.repo.strongRef", uri: ["at://did:plc:alice"], cid: "bafy" } },
+      { reasonType: "spam", subject: { $type: "com.atproto.admin.defs#repoRef", did: 1 } },
+      { reasonType: 1, subject: account },
+      { reasonType: "spam", reason: { text: "Spam" }, subject: account },
+    ]) {
+      const response = await server.app.inject({
+        method: "POST",
+        url: `/xrpc/${CREATE_REPORT}`,
+        headers: { authorization: `Bearer ${token}` },
+        payload,
+      });
+      expect(response.statusCode).toBe(400);
+      expect(response.json()).toMatchObject({ error: "InvalidRequest" });
+    }
+    await expect(server.reports.list()).resolves.toEqual([]);
+  });
+
+  it("should not accept reports without a MongoDB store", async () => {
+    const memoryServer = new LabelerServer({ did: LABELER_DID, signingKey: SIGNING_KEY, store: new MemoryLabelStore() });
+    const response = await memoryServer.app.inject({
+      method: "POST",
+      url: `/xrpc/${CREATE_REPORT}`,
+      payload: { reasonType: "spam", subject: account },
+    });
+    expect(response.statusCode).toBe(501);
+    expect(() => memoryServer.reports).toThrow("Reports require a MongoDB label store");
+    await memoryServer.close();
+  });
+});
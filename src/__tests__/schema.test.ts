@@ -0,0 +1,183 @@
+import { MongoClient } from "mongodb";
+import { MongoDBClient } from "../mongodb.js";
+import { EXPIRED_LABEL_TTL_INDEX_NAME, LABEL_SCHEMA } from "../schema.js";
+import type { UnsignedLabel } from "../util/types.js";
+import { getMongodUri } from "../../vitest.setup";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+const DATABASE_NAME = "schema_test";
+
+const label: UnsignedLabel & { sig: ArrayBuffer } = {
+  src: "did:example:123",
+  uri: "at://did:example:123/app.bsky.feed.post/1",
+  val: "test",
+  cts: new Date().toISOString(),
+  ver: 1,
+  sig: new ArrayBuffer(64),
+};
+
+describe("LabelSchemaManager", () => {
+  let raw: MongoClient;
+  let client: MongoDBClient;
+
+  beforeEach(async () => {
+    raw = await MongoClient.connect(getMongodUri());
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await raw.db(DATABASE_NAME).dropDatabase();
+    await raw.close();
+  });
+
+  it("should create the indexes and validator of a new collection", async () => {
+    client = new MongoDBClient({ uri: getMongodUri(), databaseName: DATABASE_NAME });
+    await client.connect();
+
+    const indexes = await raw.db(DATABASE_NAME).collection("labels").indexes();
+    expect(indexes.map(index => index.name)).toEqual(expect.arrayContaining([
+      "uri_1_val_1_cts_1",
+      "src_1_cts_1",
+      "exp_1_seq_1",
+      "seq_1",
+    ]));
+    await expect(client.checkSchema()).resolves.toEqual({
+      missingIndexes: [],
+      conflictingIndexes: [],
+      extraIndexes: [],
+      validator: "current",
+      invalidLabels: 0,
+    });
+
+    await client.saveLabel(label);
+    await expect(raw.db(DATABASE_NAME).collection("labels").insertOne({ ...label, seq: 2, src: "alice" }))
+      .rejects.toThrow("Document failed validation");
+  });
+
+  it("should report drift on existing deployments", async () => {
+    const labels = raw.db(DATABASE_NAME).collection("labels");
+    // Labels stored before timestamps were stored as dates
+    await labels.insertOne({ ...label, seq: 1 });
+    await labels.createIndex({ val: 1, uri: 1 });
+    await labels.createIndex({ seq: 1 });
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+
+    try {
+      client = new MongoDBClient({ uri: getMongodUri(), databaseName: DATABASE_NAME });
+      await client.connect();
+      expect(warn).toHaveBeenCalledWith(
+        "Collection labels differs from the expected schema:",
+        expect.objectContaining({ conflictingIndexes: ["seq_1"], extraIndexes: ["val_1_uri_1"] }),
+      );
+    } finally {
+      warn.mockRestore();
+    }
+
+    await expect(client.checkSchema()).resolves.toEqual({
+      missingIndexes: [],
+      conflictingIndexes: ["seq_1"],
+      extraIndexes: ["val_1_uri_1"],
+      validator: "current",
+      invalidLabels: 1,
+    });
+  });
+
+  it("should drop the indexes created by earlier versions", async () => {
+    const labels = raw.db(DATABASE_NAME).collection("labels");
+    await labels.createIndex({ uri: 1 });
+    // An index on the same field the labeler did not create is left in place
+    await labels.createIndex({ src: 1 }, { name: "by_src" });
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+
+    try {
+      client = new MongoDBClient({ uri: getMongodUri(), databaseName: DATABASE_NAME });
+      await client.connect();
+      expect(warn).toHaveBeenCalledWith(
+        "Collection labels differs from the expected schema:",
+        expect.objectContaining({ extraIndexes: ["by_src"] }),
+      );
+    } finally {
+      warn.mockRestore();
+    }
+
+    const names = (await labels.indexes()).map(index => index.name);
+    expect(names).not.toContain("uri_1");
+    expect(names).toContain("by_src");
+  });
+
+  it("should create the expired label TTL index and update its TTL", async () => {
+    const ttlIndex = async (): Promise<unknown> => (await raw.db(DATABASE_NAME).collection("labels").indexes())
+      .find(index => index.name === EXPIRED_LABEL_TTL_INDEX_NAME);
+
+    client = new MongoDBClient({ uri: getMongodUri(), databaseName: DATABASE_NAME, expiredLabelTtl: 3_600_000 });
+    await client.connect();
+    await expect(ttlIndex()).resolves.toMatchObject({ key: { exp: 1 }, expireAfterSeconds: 3600 });
+    await client.close();
+
+    client = new MongoDBClient({ uri: getMongodUri(), databaseName: DATABASE_NAME, expiredLabelTtl: 60_000 });
+    await client.connect();
+    await expect(ttlIndex()).resolves.toMatchObject({ expireAfterSeconds: 60 });
+    await expect(client.checkSchema()).resolves.toMatchObject({ conflictingIndexes: [], extraIndexes: [] });
+    await client.close();
+
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    try {
+      client = new MongoDBClient({ uri: getMongodUri(), databaseName: DATABASE_NAME });
+      await client.connect();
+    } finally {
+      warn.mockRestore();
+    }
+    await expect(client.checkSchema()).resolves.toMatchObject({ extraIndexes: [EXPIRED_LABEL_TTL_INDEX_NAME] });
+    expect(() => new MongoDBClient({ uri: getMongodUri(), expiredLabelTtl: -1 })).toThrow("expiredLabelTtl");
+  });
+
+  it("should apply the configured validation action, or leave the validator alone", async () => {
+    client = new MongoDBClient({ uri: getMongodUri(), databaseName: DATABASE_NAME, schemaValidation: "warn" });
+    await client.connect();
+    const [warned] = await raw.db(DATABASE_NAME).listCollections({ name: "labels" }).toArray();
+    expect(warned).toMatchObject({ options: { validator: { $jsonSchema: LABEL_SCHEMA }, validationAction: "warn" } });
+    await client.close();
+
+    await raw.db(DATABASE_NAME).command({ collMod: "labels", validator: {} });
+    client = new MongoDBClient({ uri: getMongodUri(), databaseName: DATABASE_NAME, schemaValidation: "off" });
+    await client.connect();
+    await expect(client.checkSchema()).resolves.toMatchObject({ validator: "missing" });
+  });
+
+  it("should only replace a validator the labeler did not apply when allowed", async () => {
+    const foreign = { $jsonSchema: { bsonType: "object", required: ["val"] } };
+    await raw.db(DATABASE_NAME).createCollection("labels", { validator: foreign });
+    const validator = async (): Promise<unknown> =>
+      ((await raw.db(DATABASE_NAME).listCollections({ name: "labels" }).toArray())[0] as { options?: { validator?: unknown } })
+        .options?.validator;
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+
+    try {
+      client = new MongoDBClient({ uri: getMongodUri(), databaseName: DATABASE_NAME });
+      await client.connect();
+      await expect(validator()).resolves.toEqual(foreign);
+      await expect(client.checkSchema()).resolves.toMatchObject({ validator: "outdated" });
+      await client.close();
+
+      client = new MongoDBClient({ uri: getMongodUri(), databaseName: DATABASE_NAME, replaceSchemaValidator: true });
+      await client.connect();
+      expect(warn).toHaveBeenCalledWith("Replaced the validator of collection labels:", foreign);
+    } finally {
+      warn.mockRestore();
+    }
+    await expect(validator()).resolves.toEqual({ $jsonSchema: LABEL_SCHEMA });
+    await expect(client.checkSchema()).resolves.toMatchObject({ validator: "current" });
+  });
+
+  it("should accept sequence numbers stored as doubles", async () => {
+    client = new MongoDBClient({ uri: getMongodUri(), databaseName: DATABASE_NAME });
+    await client.connect();
+
+    await expect(raw.db(DATABASE_NAME).collection("labels").insertOne({
+      ...label,
+      cts: new Date(),
+      sig: Buffer.from(label.sig),
+      seq: 2 ** 32,
+    })).resolves.toMatchObject({ acknowledged: true });
+  });
+});
@@ -0,0 +1,215 @@
+import { fastify, type FastifyInstance } from "fastify";
+import { Secp256k1Keypair } from "@atproto/crypto";
+import { declareLabeler, loginLabeler, plcSetupLabeler, requestPlcToken } from "../setup.js";
+import type { LabelerPolicies } from "../types/index.js";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+const DID = "did:plc:labeler123";
+const PASSWORD = "hunter2";
+const ACCESS_JWT = "access-token";
+
+const policies: LabelerPolicies = {
+  labelValues: ["spam"],
+  labelValueDefinitions: [{
+    identifier: "spam",
+    severity: "alert",
+    blurs: "none",
+    defaultSetting: "warn",
+    adultOnly: false,
+    locales: [{ lang: "en", name: "Spam", description: "Unwanted promotional content" }],
+  }],
+};
+
+interface StubRecord {
+  cid: string;
+  value: Record<string, unknown>;
+}
+
+/**
+ * A PDS stub implementing the XRPC methods used during labeler setup, served under
+ * the given path prefix.
+ */
+function createStubPds(prefix = "") {
+  const state = {
+    record: undefined as StubRecord | undefined,
+    putRecordInputs: [] as Array<Record<string, unknown>>,
+    signInputs: [] as Array<Record<string, unknown>>,
+    submitted: [] as unknown[],
+    plcTokenRequests: 0,
+  };
+  const app: FastifyInstance = fastify();
+
+  app.addHook("preHandler", async (req, reply) => {
+    if (req.url.startsWith(`${prefix}/xrpc/com.atproto.server.createSession`)) {
+      return;
+    }
+    if (req.headers.authorization !== `Bearer ${ACCESS_JWT}`) {
+      await reply.status(401).send({ error: "AuthRequired", message: "Authentication required" });
+    }
+  });
+
+  app.post<{ Body: { identifier: string; password: string } }>(`${prefix}/xrpc/com.atproto.server.createSession`, async (req, reply) => {
+    if (req.body.identifier !== DID || req.body.password !== PASSWORD) {
+      return reply.status(401).send({ error: "AuthenticationRequired", message: "Invalid identifier or password" });
+    }
+    return { did: DID, handle: "labeler.test", accessJwt: ACCESS_JWT, refreshJwt: "refresh-token" };
+  });
+
+  app.get(`${prefix}/xrpc/com.atproto.repo.getRecord`, async (_req, reply) => {
+    if (!state.record) {
+      return reply.status(400).send({ error: "RecordNotFound", message: "Could not locate record" });
+    }
+    return { uri: `at://${DID}/app.bsky.labeler.service/self`, ...state.record };
+  });
+
+  app.post<{ Body: Record<string, unknown> }>(`${prefix}/xrpc/com.atproto.repo.putRecord`, async (req, reply) => {
+    state.putRecordInputs.push(req.body);
+    if ((req.body.swapRecord ?? null) !== (state.record?.cid ?? null)) {
+      return reply.status(400).send({ error: "InvalidSwap", message: "Record was at a different CID" });
+    }
+    const cid = `bafyrecord${state.putRecordInputs.length}`;
+    state.record = { cid, value: req.body.record as Record<string, unknown> };
+    return { uri: `at://${DID}/app.bsky.labeler.service/self`, cid };
+  });
+
+  app.post(`${prefix}/xrpc/com.atproto.identity.requestPlcOperationSignature`, async () => {
+    state.plcTokenRequests++;
+    return {};
+  });
+
+  app.get(`${prefix}/xrpc/com.atproto.identity.getRecommendedDidCredentials`, async () => ({
+    rotationKeys: ["did:key:rotation"],
+    alsoKnownAs: ["at://labeler.test"],
+    verificationMethods: { atproto: "did:key:repo" },
+    services: { atproto_pds: { type: "AtprotoPersonalDataServer", endpoint: "https://pds.test" } },
+  }));
+
+  app.post<{ Body: Record<string, unknown> }>(`${prefix}/xrpc/com.atproto.identity.signPlcOperation`, async (req, reply) => {
+    state.signInputs.push(req.body);
+    if (req.body.token !== "plc-token") {
+      return reply.status(400).send({ error: "InvalidToken", message: "Invalid token" });
+    }
+    return { operation: { type: "plc_operation", ...req.body, sig: "signed" } };
+  });
+
+  app.post<{ Body: { operation: unknown } }>(`${prefix}/xrpc/com.atproto.identity.submitPlcOperation`, async (req) => {
+    state.submitted.push(req.body.operation);
+    return {};
+  });
+
+  return { app, state };
+}
+
+describe("Labeler Setup", () => {
+  let pds: ReturnType<typeof createStubPds>;
+  let pdsUrl: string;
+
+  beforeEach(async () => {
+    pds = createStubPds();
+    pdsUrl = await pds.app.listen({ port: 0, host: "127.0.0.1" });
+  });
+
+  afterEach(async () => {
+    await pds.app.close();
+  });
+
+  it("should log in to the PDS", async () => {
+    const session = await loginLabeler({ identifier: DID, password: PASSWORD, pds: pdsUrl });
+    expect(session.did).toBe(DID);
+    expect(session.service).toBe(pdsUrl);
+
+    await expect(loginLabeler({ identifier: DID, password: "wrong", pds: pdsUrl })).rejects.toThrow(
+      "Failed to log in to the PDS",
+    );
+  });
+
+  it("should send requests under the PDS URL's path", async () => {
+    const prefixed = createStubPds("/pds");
+    const prefixedUrl = await prefixed.app.listen({ port: 0, host: "127.0.0.1" });
+    try {
+      for (const pds of [`${prefixedUrl}/pds`, `${prefixedUrl}/pds/`]) {
+        const session = await loginLabeler({ identifier: DID, password: PASSWORD, pds });
+        await expect(declareLabeler({ identifier: DID, password: PASSWORD, pds }, policies)).resolves.toMatchObject({
+          uri: `at://${DID}/app.bsky.labeler.service/self`,
+        });
+        expect(session.service).toBe(pds);
+      }
+      expect(prefixed.state.putRecordInputs).toHaveLength(2);
+    } finally {
+      await prefixed.app.close();
+    }
+  });
+
+  it("should create and then update the labeler service record", async () => {
+    const credentials = { identifier: DID, password: PASSWORD, pds: pdsUrl };
+
+    const created = await declareLabeler(credentials, policies);
+    expect(created.uri).toBe(`at://${DID}/app.bsky.labeler.service/self`);
+    expect(pds.state.record?.value).toMatchObject({ $type: "app.bsky.labeler.service", policies });
+    const createdAt = pds.state.record?.value.createdAt;
+
+    const updatedPolicies = { ...policies, labelValues: ["spam", "rude"] };
+    const updated = await declareLabeler(credentials, updatedPolicies);
+    expect(updated.cid).not.toBe(created.cid);
+    expect(pds.state.putRecordInputs[1]).toMatchObject({ swapRecord: created.cid, rkey: "self", repo: DID });
+    expect(pds.state.record?.value).toMatchObject({ policies: updatedPolicies, createdAt });
+  });
+
+  it("should request a PLC token", async () => {
+    await requestPlcToken({ identifier: DID, password: PASSWORD, pds: pdsUrl });
+    expect(pds.state.plcTokenRequests).toBe(1);
+  });
+
+  it("should add the labeler service and signing key to the DID document", async () => {
+    const keypair = await Secp256k1Keypair.create({ exportable: true });
+    const signingKey = Buffer.from(await keypair.export()).toString("hex");
+
+    const result = await plcSetupLabeler({
+      did: DID,
+      password: PASSWORD,
+      pds: pdsUrl,
+      plcToken: "plc-token",
+      endpoint: "https://labeler.test",
+      signingKey,
+    });
+
+    expect(result.signingKey).toBe(signingKey);
+    expect(result.signingKeyDid).toBe(keypair.did());
+    expect(pds.state.signInputs[0]).toEqual({
+      token: "plc-token",
+      rotationKeys: ["did:key:rotation"],
+      alsoKnownAs: ["at://labeler.test"],
+      verificationMethods: { atproto: "did:key:repo", atproto_label: keypair.did() },
+      services: {
+        atproto_pds: { type: "AtprotoPersonalDataServer", endpoint: "https://pds.test" },
+        atproto_labeler: { type: "AtprotoLabeler", endpoint: "https://labeler.test" },
+      },
+    });
+    expect(pds.state.submitted).toEqual([result.operation]);
+  });
+
+  it("should generate a signing key when none is given", async () => {
+    const result = await plcSetupLabeler({
+      did: DID,
+      password: PASSWORD,
+      pds: pdsUrl,
+      plcToken: "plc-token",
+      endpoint: "https://labeler.test",
+    });
+
+    const keypair = await Secp256k1Keypair.import(result.signingKey);
+    expect(keypair.did()).toBe(result.signingKeyDid);
+  });
+
+  it("should reject invalid configurations and rejected operations", async () => {
+    const config = { did: DID, password: PASSWORD, pds: pdsUrl, plcToken: "plc-token", endpoint: "https://labeler.test" };
+
+    await expect(plcSetupLabeler({ ...config, did: "did:web:labeler.test" })).rejects.toThrow("Only did:plc DIDs");
+    await expect(plcSetupLabeler({ ...config, plcToken: undefined })).rejects.toThrow("A PLC token is required");
+    await expect(plcSetupLabeler({ ...config, endpoint: "not a url" })).rejects.toThrow("Invalid labeler endpoint");
+    await expect(plcSetupLabeler({ ...config, plcToken: "wrong" })).rejects.toThrow(
+      "Failed to update the labeler DID document",
+    );
+    expect(pds.state.submitted).toHaveLength(0);
+  });
+});
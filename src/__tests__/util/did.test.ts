@@ -0,0 +1,92 @@
+import { bytesToMultibase, Secp256k1Keypair } from "@atproto/crypto";
+import { getAtprotoSigningKey, getLabelerSigningKey, publicKeyToDidKey, resolveLabelerKey } from "../../util/did.js";
+import type { DidDocument } from "../../util/did.js";
+import { describe, it, expect, vi } from "vitest";
+
+describe("DID Utils", () => {
+  const did = "did:plc:labeler";
+
+  async function createDocument(): Promise<{ keypair: Secp256k1Keypair; doc: DidDocument }> {
+    const keypair = await Secp256k1Keypair.create();
+    const doc: DidDocument = {
+      id: did,
+      verificationMethod: [
+        {
+          id: `${did}#atproto`,
+          type: "Multikey",
+          controller: did,
+          publicKeyMultibase: "zQ3shunBKsXixLxKtC5qeSG9E4J5RkGN57im31pcTzbNQnm5w",
+        },
+        {
+          id: `${did}#atproto_label`,
+          type: "Multikey",
+          controller: did,
+          publicKeyMultibase: keypair.did().replace("did:key:", ""),
+        },
+      ],
+    };
+    return { keypair, doc };
+  }
+
+  describe("publicKeyToDidKey", () => {
+    it("should format a compressed secp256k1 public key as a did:key", async () => {
+      const keypair = await Secp256k1Keypair.create();
+      expect(publicKeyToDidKey(keypair.publicKeyBytes())).toBe(keypair.did());
+    });
+  });
+
+  describe("getLabelerSigningKey", () => {
+    it("should find the #atproto_label verification method", async () => {
+      const { keypair, doc } = await createDocument();
+      expect(getLabelerSigningKey(doc)).toBe(keypair.did());
+    });
+
+    it("should support legacy secp256k1 verification keys", async () => {
+      const keypair = await Secp256k1Keypair.create();
+      const doc: DidDocument = {
+        id: did,
+        verificationMethod: [{
+          id: "#atproto_label",
+          type: "EcdsaSecp256k1VerificationKey2019",
+          controller: did,
+          publicKeyMultibase: bytesToMultibase(keypair.publicKeyBytes(), "base58btc"),
+        }],
+      };
+      expect(getLabelerSigningKey(doc)).toBe(keypair.did());
+    });
+
+    it("should return undefined when no label key is declared", () => {
+      expect(getLabelerSigningKey({ id: did })).toBeUndefined();
+    });
+  });
+
+  describe("getAtprotoSigningKey", () => {
+    it("should find the #atproto verification method", async () => {
+      const { doc } = await createDocument();
+      expect(getAtprotoSigningKey(doc)).toBe("did:key:zQ3shunBKsXixLxKtC5qeSG9E4J5RkGN57im31pcTzbNQnm5w");
+      expect(getAtprotoSigningKey({ id: did })).toBeUndefined();
+    });
+  });
+
+  describe("resolveLabelerKey", () => {
+    it("should return did:key values as is", async () => {
+      const keypair = await Secp256k1Keypair.create();
+      const resolver = vi.fn();
+      await expect(resolveLabelerKey(keypair.did(), resolver)).resolves.toBe(keypair.did());
+      expect(resolver).not.toHaveBeenCalled();
+    });
+
+    it("should resolve other DIDs through the resolver", async () => {
+      const { keypair, doc } = await createDocument();
+      const resolver = vi.fn().mockResolvedValue(doc);
+      await expect(resolveLabelerKey(did, resolver)).resolves.toBe(keypair.did());
+      expect(resolver).toHaveBeenCalledWith(did);
+    });
+
+    it("should fail without a resolver or label key", async () => {
+      await expect(resolveLabelerKey(did)).rejects.toThrow("A DID resolver is required");
+      await expect(resolveLabelerKey(did, vi.fn().mockResolvedValue(null))).rejects.toThrow("Could not resolve DID document");
+      await expect(resolveLabelerKey(did, vi.fn().mockResolvedValue({ id: did }))).rejects.toThrow("has no #atproto_label verification method");
+    });
+  });
+});
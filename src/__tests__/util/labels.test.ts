@@ -1,4 +1,5 @@
-import { formatLabel, labelIsSigned, signLabel } from "../../util/labels.js";
+import { Secp256k1Keypair, verifySignature } from "@atproto/crypto";
+import { encodeLabelCbor, formatLabel, formatLabelCbor, labelIsSigned, signLabel, verifyLabel } from "../../util/labels.js";
 import { UnsignedLabel } from "../../util/types.js";
 import { describe, it, expect } from "vitest";
 
@@ -145,5 +146,86 @@ describe("Label Utils", () => {
       expect(signedLabel.neg).toBe(false);
       expect(signedLabel.val).toBe(label.val);
     });
+
+    it("should sign the DAG-CBOR encoding of the label", async () => {
+      const label: UnsignedLabel = {
+        val: "test-label",
+        uri: "at://test.com",
+        src: "did:web:test.com",
+        cts: new Date().toISOString(),
+        ver: 1,
+      };
+      const privateKey = new Uint8Array(32).fill(7);
+      const keypair = await Secp256k1Keypair.import(privateKey);
+
+      const signedLabel = await signLabel(label, privateKey);
+
+      await expect(verifySignature(keypair.did(), encodeLabelCbor(label), signedLabel.sig)).resolves.toBe(true);
+      await expect(
+        verifySignature(keypair.did(), Buffer.from(JSON.stringify(label)), signedLabel.sig),
+      ).resolves.toBe(false);
+    });
+  });
+
+  describe("verifyLabel", () => {
+    const label: UnsignedLabel = {
+      val: "test-label",
+      uri: "at://test.com",
+      src: "did:web:test.com",
+      cts: "2024-01-01T00:00:00.000Z",
+      ver: 1,
+    };
+    const privateKey = new Uint8Array(32).fill(7);
+
+    it("should verify signed and formatted labels against a did:key", async () => {
+      const keypair = await Secp256k1Keypair.import(privateKey);
+      const signedLabel = await signLabel(label, privateKey);
+
+      await expect(verifyLabel(signedLabel, keypair.did())).resolves.toBe(true);
+      const formatted = formatLabel(signedLabel) as UnsignedLabel & { sig: { $bytes: string } };
+      await expect(verifyLabel(formatted, keypair.did())).resolves.toBe(true);
+    });
+
+    it("should verify labels against a raw public key", async () => {
+      const keypair = await Secp256k1Keypair.import(privateKey);
+      const signedLabel = await signLabel(label, privateKey);
+
+      await expect(verifyLabel(signedLabel, keypair.publicKeyBytes())).resolves.toBe(true);
+    });
+
+    it("should reject tampered labels and other keys", async () => {
+      const otherKeypair = await Secp256k1Keypair.create();
+      const keypair = await Secp256k1Keypair.import(privateKey);
+      const signedLabel = await signLabel(label, privateKey);
+
+      await expect(verifyLabel({ ...signedLabel, val: "other" }, keypair.did())).resolves.toBe(false);
+      await expect(verifyLabel({ ...signedLabel, sig: new Uint8Array(3) }, keypair.did())).resolves.toBe(false);
+      await expect(verifyLabel(signedLabel, otherKeypair.did())).resolves.toBe(false);
+      await expect(verifyLabel(signedLabel, "did:key:invalid")).rejects.toThrow();
+    });
+  });
+
+  describe("formatLabelCbor", () => {
+    it("should keep only label fields and normalize neg", () => {
+      const label = {
+        val: "test-label",
+        uri: "at://test.com",
+        src: "did:web:test.com" as const,
+        cts: "2024-01-01T00:00:00.000Z",
+        exp: undefined,
+        ver: 1 as const,
+        sig: new Uint8Array([1, 2, 3]),
+        _id: "stored-id",
+      };
+
+      expect(formatLabelCbor(label)).toEqual({
+        ver: 1,
+        val: "test-label",
+        uri: "at://test.com",
+        neg: false,
+        src: "did:web:test.com",
+        cts: "2024-01-01T00:00:00.000Z",
+      });
+    });
   });
 });
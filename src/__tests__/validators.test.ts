@@ -10,7 +10,8 @@ vi.mock("@atproto/syntax", () => ({
   }),
 }));
 
-import { validateCid, validateDid, validateVal, validateCts, validateExp, validateUri, validateAtUri } from "../util/validators";
+import { validateCid, validateDid, validateVal, validateCts, validateExp, validateUri, validateAtUri, validateLabelDefinition, validateSubjectPattern, matchesSubjectPattern } from "../util/validators";
+import type { LabelDefinition } from "../types/index.js";
 import { AtProtocolValidationError } from "../errors";
 import { describe, it, expect, beforeAll, afterAll } from 'vitest';
 
@@ -166,6 +167,27 @@ describe("URI Validation", () => {
   });
 });
 
+describe("Subject Pattern Validation", () => {
+  it("should accept exact URIs and trailing wildcards", () => {
+    for (const pattern of ["did:plc:user123", "at://did:plc:user123/*", "did:plc:*", "*"]) {
+      expect(() => validateSubjectPattern(pattern)).not.toThrow();
+    }
+  });
+
+  it("should reject inner wildcards and invalid exact URIs", () => {
+    expect(() => validateSubjectPattern("at://*/post")).toThrow("Only trailing wildcards");
+    expect(() => validateSubjectPattern("http://example.com")).toThrow(AtProtocolValidationError);
+  });
+
+  it("should match exactly or by prefix", () => {
+    expect(matchesSubjectPattern("did:plc:user123", "did:plc:user123")).toBe(true);
+    expect(matchesSubjectPattern("did:plc:user123", "did:plc:user1234")).toBe(false);
+    expect(matchesSubjectPattern("at://did:plc:user123/*", "at://did:plc:user123/app.bsky.feed.post/1")).toBe(true);
+    expect(matchesSubjectPattern("at://did:plc:user123/*", "did:plc:user123")).toBe(false);
+    expect(matchesSubjectPattern("*", "did:plc:user123")).toBe(true);
+  });
+});
+
 /** @deprecated */
 describe("validateAtUri (Deprecated)", () => {
   // Test invalid AT Protocol URIs
@@ -434,3 +456,43 @@ describe("Timestamp Validation", () => {
     });
   });
 });
+
+describe("Label Definition Validation", () => {
+  const definition: LabelDefinition = {
+    identifier: "spam-bot",
+    severity: "alert",
+    blurs: "none",
+    defaultSetting: "warn",
+    locales: [{ lang: "en", name: "Spam bot", description: "Automated spam account" }],
+  };
+
+  it("should accept valid definitions", () => {
+    expect(() => validateLabelDefinition(definition)).not.toThrow();
+    expect(() => validateLabelDefinition({ ...definition, defaultSetting: undefined, locales: [] })).not.toThrow();
+  });
+
+  it("should reject invalid identifiers", () => {
+    for (const identifier of ["", "Spam", "!hide", "spam_bot", "a".repeat(101)]) {
+      expect(() => validateLabelDefinition({ ...definition, identifier })).toThrow(AtProtocolValidationError);
+    }
+  });
+
+  it("should reject unknown settings", () => {
+    expect(() => validateLabelDefinition({ ...definition, severity: "loud" as "alert" })).toThrow("severity");
+    expect(() => validateLabelDefinition({ ...definition, blurs: "all" as "none" })).toThrow("blurs");
+    expect(() => validateLabelDefinition({ ...definition, defaultSetting: "show" as "warn" })).toThrow("defaultSetting");
+  });
+
+  it("should reject incomplete or overlong locales", () => {
+    expect(() => validateLabelDefinition({ ...definition, locales: [{ lang: "", name: "Spam", description: "Spam" }] }))
+      .toThrow("a lang, a name and a description");
+    expect(() => validateLabelDefinition({ ...definition, locales: [{ lang: "en", name: "", description: "Spam" }] }))
+      .toThrow("a lang, a name and a description");
+    expect(() => validateLabelDefinition({ ...definition, locales: [{ lang: "en", name: "Spam", description: "" }] }))
+      .toThrow("a lang, a name and a description");
+    expect(() => validateLabelDefinition({ ...definition, locales: [{ lang: "en", name: "a".repeat(65), description: "Spam" }] }))
+      .toThrow("at most 64");
+    expect(() => validateLabelDefinition({ ...definition, locales: [{ lang: "en", name: "Spam", description: "a".repeat(10001) }] }))
+      .toThrow("at most 10000");
+  });
+});
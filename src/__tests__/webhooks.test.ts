@@ -0,0 +1,184 @@
+import { createServer, type IncomingHttpHeaders, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { MongoClient } from "mongodb";
+import { LabelerServer } from "../LabelerServer.js";
+import { MemoryLabelStore } from "../memory.js";
+import {
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  type WebhookPayload,
+} from "../webhooks.js";
+import { getMongodUri } from "../../vitest.setup";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+const DATABASE_NAME = "webhooks_test";
+const LABELER_DID = "did:web:labeler.test";
+const SIGNING_KEY = "0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef";
+const SECRET = "webhook-secret";
+
+describe("verifyWebhookSignature", () => {
+  it("should only accept bodies signed with the secret at the timestamp", () => {
+    const signature = signWebhookPayload(SECRET, "1700000000", "{}");
+    expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature(SECRET, "1700000000", "{}", signature)).toBe(true);
+    expect(verifyWebhookSignature(SECRET, "1700000001", "{}", signature)).toBe(false);
+    expect(verifyWebhookSignature("other", "1700000000", "{}", signature)).toBe(false);
+    expect(verifyWebhookSignature(SECRET, "1700000000", "{}", "sha256=")).toBe(false);
+  });
+});
+
+describe("WebhookDispatcher", () => {
+  let stub: Server;
+  let stubUrl: string;
+  let received: Array<{ headers: IncomingHttpHeaders; body: string }>;
+  let status: number;
+  let now: Date;
+  let server: LabelerServer;
+
+  beforeEach(async () => {
+    received = [];
+    status = 200;
+    stub = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk: Buffer) => (body += chunk.toString()));
+      req.on("end", () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(status).end();
+      });
+    });
+    await new Promise<void>((resolve) => stub.listen(0, "127.0.0.1", resolve));
+    stubUrl = `http://127.0.0.1:${(stub.address() as AddressInfo).port}/hooks`;
+
+    now = new Date();
+    server = new LabelerServer({
+      did: LABELER_DID,
+      signingKey: SIGNING_KEY,
+      mongoUri: getMongodUri(),
+      databaseName: DATABASE_NAME,
+      webhooks: { now: () => now, maxAttempts: 3, retryDelay: 1000 },
+    });
+    await server.connect();
+  });
+
+  afterEach(async () => {
+    const raw = await MongoClient.connect(getMongodUri());
+    await raw.db(DATABASE_NAME).dropDatabase();
+    await raw.close();
+    await server.close();
+    await new Promise((resolve) => stub.close(resolve));
+  });
+
+  it("should post signed payloads for created and negated labels", async () => {
+    await server.webhooks.register({ url: stubUrl, secret: SECRET });
+    await server.createLabel({ ver: 1, val: "spam", uri: "did:plc:alice" });
+    const [label] = await server.db.findLabels({ val: "spam" });
+    await server.deleteLabel(label._id);
+
+    await expect(server.webhooks.deliverDue()).resolves.toEqual({ delivered: 2, retried: 0, dead: 0 });
+    const payloads = received.map(({ headers, body }) => {
+      expect(verifyWebhookSignature(
+        SECRET,
+        headers[WEBHOOK_TIMESTAMP_HEADER] as string,
+        body,
+        headers[WEBHOOK_SIGNATURE_HEADER] as string,
+      )).toBe(true);
+      return JSON.parse(body) as WebhookPayload;
+    });
+    expect(payloads.map(({ event, seq, label }) => [event, seq, label.val, label.neg])).toEqual([
+      ["label", 1, "spam", false],
+      ["negate", 2, "spam", true],
+    ]);
+    expect(payloads[0].label).toMatchObject({ src: LABELER_DID, uri: "did:plc:alice", sig: { $bytes: expect.any(String) } });
+    await expect(server.webhooks.deliveries({ status: "delivered" })).resolves.toHaveLength(2);
+  });
+
+  it("should only queue labels matching an endpoint's filters", async () => {
+    const endpoint = await server.webhooks.register({
+      url: stubUrl,
+      secret: SECRET,
+      vals: ["spam"],
+      subjects: ["at://did:plc:alice/*"],
+    });
+    await server.createLabel({ ver: 1, val: "spam", uri: "did:plc:alice" });
+    await server.createLabel({ ver: 1, val: "rude", uri: "at://did:plc:alice/app.bsky.feed.post/1" });
+    await server.createLabel({ ver: 1, val: "spam", uri: "at://did:plc:alice/app.bsky.feed.post/1" });
+
+    const deliveries = await server.webhooks.deliveries({ endpointId: endpoint._id });
+    expect(deliveries.map(({ payload }) => [payload.label.val, payload.label.uri])).toEqual([
+      ["spam", "at://did:plc:alice/app.bsky.feed.post/1"],
+    ]);
+    await expect(server.webhooks.register({ url: "ftp://example.com", secret: SECRET })).rejects.toThrow("http");
+    await expect(server.webhooks.register({ url: stubUrl, secret: "" })).rejects.toThrow("secret");
+  });
+
+  it("should retry failed deliveries with backoff, then dead-letter them", async () => {
+    status = 500;
+    await server.webhooks.register({ url: stubUrl, secret: SECRET });
+    await server.createLabel({ ver: 1, val: "spam", uri: "did:plc:alice" });
+
+    await expect(server.webhooks.deliverDue()).resolves.toEqual({ delivered: 0, retried: 1, dead: 0 });
+    await expect(server.webhooks.deliverDue()).resolves.toEqual({ delivered: 0, retried: 0, dead: 0 });
+
+    now = new Date(now.getTime() + 1000);
+    await expect(server.webhooks.deliverDue()).resolves.toEqual({ delivered: 0, retried: 1, dead: 0 });
+    now = new Date(now.getTime() + 1000);
+    await expect(server.webhooks.deliverDue()).resolves.toEqual({ delivered: 0, retried: 0, dead: 0 });
+    now = new Date(now.getTime() + 1000);
+    await expect(server.webhooks.deliverDue()).resolves.toEqual({ delivered: 0, retried: 0, dead: 1 });
+
+    const [dead] = await server.webhooks.deliveries({ status: "dead" });
+    expect(dead).toMatchObject({ attempts: 3, lastError: "Endpoint responded with status 500" });
+    expect(new Set(received.map(({ body }) => (JSON.parse(body) as WebhookPayload).id))).toEqual(new Set([dead.payload.id]));
+
+    status = 200;
+    await expect(server.webhooks.redeliver(dead._id)).resolves.toMatchObject({ status: "pending", attempts: 0 });
+    await expect(server.webhooks.deliverDue()).resolves.toEqual({ delivered: 1, retried: 0, dead: 0 });
+  });
+
+  it("should queue labels whose webhooks failed to queue on the next run", async () => {
+    await server.webhooks.register({ url: stubUrl, secret: SECRET });
+    const enqueue = vi.spyOn(server.webhooks, "enqueue").mockRejectedValueOnce(new Error("Queue unavailable"));
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    const error = vi.spyOn(console, "error");
+    await server.createLabel({ ver: 1, val: "spam", uri: "did:plc:alice" });
+    await server.createLabel({ ver: 1, val: "rude", uri: "did:plc:alice" });
+    enqueue.mockRestore();
+    expect(warn).toHaveBeenCalledOnce();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("Failed to queue webhooks for label 1"), expect.any(Error));
+    expect(error).not.toHaveBeenCalled();
+    warn.mockRestore();
+    error.mockRestore();
+    expect((await server.webhooks.deliveries()).map(({ payload }) => payload.label.val)).toEqual(["rude"]);
+
+    await expect(server.webhooks.deliverDue()).resolves.toEqual({ delivered: 2, retried: 0, dead: 0 });
+    const payloads = received.map(({ body }) => JSON.parse(body) as WebhookPayload);
+    expect(payloads.map(({ seq, label }) => [seq, label.val]).sort()).toEqual([[1, "spam"], [2, "rude"]]);
+    await expect(server.webhooks.deliverDue()).resolves.toEqual({ delivered: 0, retried: 0, dead: 0 });
+  });
+
+  it("should not send labels stored before an endpoint was registered", async () => {
+    await server.createLabel({ ver: 1, val: "spam", uri: "did:plc:alice" });
+    await server.webhooks.register({ url: stubUrl, secret: SECRET });
+
+    await expect(server.webhooks.deliverDue()).resolves.toEqual({ delivered: 0, retried: 0, dead: 0 });
+    expect(received).toEqual([]);
+  });
+
+  it("should discard pending deliveries of unregistered endpoints", async () => {
+    const endpoint = await server.webhooks.register({ url: stubUrl, secret: SECRET });
+    await server.createLabel({ ver: 1, val: "spam", uri: "did:plc:alice" });
+
+    await expect(server.webhooks.unregister(endpoint._id)).resolves.toBe(true);
+    await expect(server.webhooks.deliverDue()).resolves.toEqual({ delivered: 0, retried: 0, dead: 0 });
+    expect(received).toEqual([]);
+  });
+
+  it("should require a MongoDB store", () => {
+    expect(() => new LabelerServer({ did: LABELER_DID, signingKey: SIGNING_KEY, store: new MemoryLabelStore(), webhooks: {} }))
+      .toThrow("Webhooks require a MongoDB label store");
+    expect(() => new LabelerServer({ did: LABELER_DID, signingKey: SIGNING_KEY, store: new MemoryLabelStore() }).webhooks)
+      .toThrow("Webhooks require the webhooks option");
+  });
+});
@@ -0,0 +1,181 @@
+import { verifySignature } from "@atproto/crypto";
+import { AuthorizationError, XRPCError } from "./errors";
+import { getAtprotoSigningKey, type DidResolver } from "./util/did.js";
+import { matchesSubjectPattern, validateDid, validateSubjectPattern } from "./util/validators.js";
+
+/**
+ * A label operation subject to authorization: applying a label value, or negating it.
+ */
+export type LabelAction = "apply" | "negate";
+
+/**
+ * What a moderator may do.
+ *
+ * @param actor The moderator's DID.
+ * @param vals The label values the moderator may use. `*` allows every value.
+ * @param subjects The subject URIs the moderator may label. Patterns match exactly, or
+ * every URI starting with their prefix if they end in `*`. Defaults to every subject.
+ * @param actions Whether the moderator may apply the values, negate them, or both.
+ * Defaults to both.
+ */
+export interface ModeratorGrant {
+  actor: `did:${string}`;
+  vals: string[];
+  subjects?: string[];
+  actions?: LabelAction[];
+}
+
+/**
+ * The grants of every moderator allowed to label on behalf of a labeler. An actor
+ * may have several grants; an operation is allowed if any of them allows it.
+ */
+export type AuthorizationPolicy = ModeratorGrant[];
+
+/**
+ * Decides which label operations an actor may perform, according to an {@link AuthorizationPolicy}.
+ *
+ * The labeler's own DID may perform any operation. Labels must be created with
+ * the labeler's DID as their `src`, since they are signed with its key.
+ *
+ * @param labelerDid The DID of the labeler.
+ * @param policy The grants of each moderator.
+ */
+export class LabelAuthorizer {
+  private readonly _labelerDid: `did:${string}`;
+  private readonly _policy: AuthorizationPolicy;
+
+  /**
+   * Create a new LabelAuthorizer instance.
+   * @param labelerDid The DID of the labeler.
+   * @param policy The grants of each moderator.
+   * @throws {AtProtocolValidationError} If a grant names an invalid DID or subject pattern
+   */
+  constructor(labelerDid: `did:${string}`, policy: AuthorizationPolicy) {
+    for (const grant of policy) {
+      validateDid(grant.actor);
+      for (const pattern of grant.subjects ?? []) {
+        validateSubjectPattern(pattern);
+      }
+    }
+    this._labelerDid = labelerDid;
+    this._policy = policy;
+  }
+
+  /**
+   * Check whether an actor may perform a label operation.
+   *
+   * @param actor - The DID of the actor.
+   * @param action - Whether the label value is applied or negated.
+   * @param label - The label value and subject URI.
+   * @returns True if the operation is allowed.
+   */
+  isAllowed(actor: string, action: LabelAction, label: { val: string; uri: string }): boolean {
+    if (actor === this._labelerDid) {
+      return true;
+    }
+    return this._policy.some((grant) =>
+      grant.actor === actor
+      && (grant.actions ?? ["apply", "negate"]).includes(action)
+      && (grant.vals.includes("*") || grant.vals.includes(label.val))
+      && (!grant.subjects || grant.subjects.some((pattern) => matchesSubjectPattern(pattern, label.uri)))
+    );
+  }
+
+  /**
+   * Ensure an actor may perform a label operation.
+   *
+   * @param actor - The DID of the actor. Every operation must name one.
+   * @param action - Whether the label value is applied or negated.
+   * @param label - The label value, subject URI and, if given, source DID.
+   * @throws {AuthorizationError} If there is no actor, the source is not the labeler, or the
+   * operation is not allowed
+   */
+  authorize(actor: string | undefined, action: LabelAction, label: { val: string; uri: string; src?: string }): void {
+    if (!actor) {
+      throw new AuthorizationError("Label operations must name the actor performing them");
+    }
+    if (label.src && label.src !== this._labelerDid) {
+      throw new AuthorizationError(`Labels must be created with the labeler's DID as src, not ${label.src}`, actor);
+    }
+    if (!this.isAllowed(actor, action, label)) {
+      throw new AuthorizationError(`${actor} is not allowed to ${action} "${label.val}" on ${label.uri}`, actor);
+    }
+  }
+}
+
+/**
+ * Options for verifying an inter-service auth token.
+ *
+ * @param audience The DID the token must be addressed to.
+ * @param lxm The NSID of the XRPC method the token must be scoped to.
+ * @param resolver Resolves the issuer's DID document to find its `#atproto` signing key.
+ */
+export interface ServiceAuthOptions {
+  audience: `did:${string}`;
+  lxm: string;
+  resolver?: DidResolver;
+}
+
+/**
+ * Verifies an inter-service auth JWT, as minted by a PDS with
+ * `com.atproto.server.getServiceAuth`, and returns the DID of its issuer.
+ *
+ * The token must be addressed to the audience DID, or its `#atproto_labeler`
+ * service, be scoped to the XRPC method, be unexpired, and be signed with the
+ * `#atproto` key in the issuer's DID document.
+ *
+ * @param token - The encoded JWT.
+ * @param options - The expected audience and method, and the DID resolver.
+ * @returns A promise that resolves to the issuer's DID.
+ * @throws {XRPCError} With status 401 if the token is invalid
+ */
+export async function verifyServiceJwt(token: string, options: ServiceAuthOptions): Promise<`did:${string}`> {
+  const parts = token.split(".");
+  if (parts.length !== 3) {
+    throw new XRPCError(401, "BadJwt", "Malformed service auth token");
+  }
+  const [encodedHeader, encodedPayload, encodedSig] = parts;
+
+  let header: { alg?: unknown };
+  let payload: { iss?: unknown; aud?: unknown; exp?: unknown; lxm?: unknown };
+  try {
+    header = JSON.parse(Buffer.from(encodedHeader, "base64url").toString("utf8")) as typeof header;
+    payload = JSON.parse(Buffer.from(encodedPayload, "base64url").toString("utf8")) as typeof payload;
+  } catch {
+    throw new XRPCError(401, "BadJwt", "Malformed service auth token");
+  }
+
+  if (header.alg !== "ES256K" && header.alg !== "ES256") {
+    throw new XRPCError(401, "BadJwt", "Unsupported service auth token algorithm");
+  }
+  if (typeof payload.iss !== "string" || !payload.iss.startsWith("did:")) {
+    throw new XRPCError(401, "BadJwt", "Service auth token has no issuer");
+  }
+  if (payload.aud !== options.audience && payload.aud !== `${options.audience}#atproto_labeler`) {
+    throw new XRPCError(401, "BadJwtAudience", "Service auth token is not addressed to this labeler");
+  }
+  if (typeof payload.exp !== "number" || payload.exp * 1000 <= Date.now()) {
+    throw new XRPCError(401, "JwtExpired", "Service auth token has expired");
+  }
+  if (payload.lxm !== options.lxm) {
+    throw new XRPCError(401, "BadJwtLexiconMethod", `Service auth token is not scoped to ${options.lxm}`);
+  }
+
+  // The issuer may name one of its services; its signing key is the account's
+  const iss = payload.iss.split("#")[0] as `did:${string}`;
+  const doc = options.resolver ? await options.resolver(iss).catch(() => null) : null;
+  const key = doc ? getAtprotoSigningKey(doc) : undefined;
+  if (!key) {
+    throw new XRPCError(401, "BadJwt", `Could not resolve the signing key of ${iss}`);
+  }
+
+  const valid = await verifySignature(
+    key,
+    Buffer.from(`${encodedHeader}.${encodedPayload}`, "utf8"),
+    Buffer.from(encodedSig, "base64url"),
+  ).catch(() => false);
+  if (!valid) {
+    throw new XRPCError(401, "BadJwtSignature", "Service auth token signature is invalid");
+  }
+  return iss;
+}
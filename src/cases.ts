@@ -0,0 +1,410 @@
+import { type Collection, type Filter, ObjectId, type UpdateFilter } from "mongodb";
+import type { LabelerServer } from "./LabelerServer.js";
+import type { MongoDBClient } from "./mongodb.js";
+import type { CreateLabelData, ModerationSubject, SignedLabel } from "./util/types.js";
+import { toSubject } from "./reports.js";
+import { validateDid } from "./util/validators.js";
+
+const CASES_COLLECTION_NAME = "moderation_cases";
+const DEFAULT_CASE_LIMIT = 50;
+
+/**
+ * Where a case is in review.
+ *
+ * - `open`: waiting for a moderator.
+ * - `escalated`: waiting for a senior moderator.
+ * - `closed`: acknowledged without action, or resolved with a label.
+ */
+export type CaseStatus = "open" | "escalated" | "closed";
+
+/**
+ * An action taken on a case.
+ */
+export type CaseAction = "open" | "claim" | "escalate" | "acknowledge" | "resolve";
+
+/**
+ * A change to a case, kept in its history for audit.
+ */
+export interface CaseTransition {
+  /** The action taken. */
+  action: CaseAction;
+  /** The DID of the moderator who took the action. */
+  actor: `did:${string}`;
+  /** The status of the case before the action, if it existed. */
+  from?: CaseStatus;
+  /** The status of the case after the action. */
+  to: CaseStatus;
+  /** Why the action was taken. */
+  note?: string;
+  /** The label applied or negated when the case was resolved. */
+  label?: { val: string; neg: boolean };
+  /** When the action was taken, in ISO 8601 format. */
+  createdAt: string;
+}
+
+/**
+ * A note left on a case by a moderator.
+ */
+export interface CaseNote {
+  author: `did:${string}`;
+  text: string;
+  createdAt: string;
+}
+
+/**
+ * A flagged subject awaiting review.
+ */
+export interface ModerationCase {
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  _id: ObjectId;
+  /** The account or record under review. */
+  subject: ModerationSubject;
+  /** The URI of the account or record, for querying by subject. */
+  subjectUri: string;
+  /** Where the case is in review. */
+  status: CaseStatus;
+  /** The DID of the moderator who claimed the case. */
+  assignee?: `did:${string}`;
+  /** How urgent the case is. Higher priorities are reviewed first. */
+  priority: number;
+  /** Notes left by moderators. */
+  notes: CaseNote[];
+  /** Every action taken on the case, oldest first. */
+  history: CaseTransition[];
+  /** When the case was opened, in ISO 8601 format. */
+  createdAt: string;
+  /** When the case last changed, in ISO 8601 format. */
+  updatedAt: string;
+  /** Incremented by every action on the case, so that concurrent actions cannot both apply. */
+  version: number;
+}
+
+/**
+ * Filters for listing cases. All filters are optional and combined.
+ *
+ * @param status Only cases with this status. Defaults to every case that is not closed.
+ * @param assignee Only cases claimed by this moderator DID, or null for unclaimed cases.
+ * @param subject Only cases about this account DID or record URI.
+ * @param limit The maximum number of cases to return. Defaults to 50.
+ */
+export interface CaseQuery {
+  status?: CaseStatus;
+  assignee?: `did:${string}` | null;
+  subject?: string;
+  limit?: number;
+}
+
+/**
+ * Queue of subjects awaiting review by moderators, stored in MongoDB alongside
+ * the labels it results in.
+ *
+ * Moderators claim cases, escalate them, acknowledge them without action, or
+ * resolve them with a label through {@link LabelerServer.createLabel}. Every
+ * action is recorded in the case's history.
+ *
+ * @param client The MongoDB client whose database holds the cases.
+ * @param server The labeler that creates the labels resolving cases.
+ */
+export class CaseQueue {
+  private readonly _client: MongoDBClient;
+  private readonly _server: LabelerServer;
+
+  /**
+   * Create a new CaseQueue instance.
+   * @param client The MongoDB client whose database holds the cases.
+   * @param server The labeler that creates the labels resolving cases.
+   */
+  constructor(client: MongoDBClient, server: LabelerServer) {
+    this._client = client;
+    this._server = server;
+  }
+
+  private get _cases(): Collection<ModerationCase> {
+    return this._client.collection<ModerationCase>(CASES_COLLECTION_NAME);
+  }
+
+  /**
+   * Create the indexes the queue relies on. Must be called once the client is connected.
+   */
+  async init(): Promise<void> {
+    try {
+      await this._cases.createIndexes([
+        { key: { status: 1, priority: -1, createdAt: 1 } },
+        { key: { subjectUri: 1, status: 1 } },
+        { key: { assignee: 1, status: 1 } },
+      ]);
+    } catch (error) {
+      throw new Error(
+        `Failed to initialize cases: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Open a case for a subject.
+   *
+   * @param subject - The account or record to review.
+   * @param actor - The DID of the moderator, or the labeler, opening the case.
+   * @param options - The priority of the case, defaulting to 0, and a note.
+   * @returns A promise that resolves to the new case.
+   * @throws {AtProtocolValidationError} If the subject or actor is invalid
+   */
+  async open(
+    subject: ModerationSubject,
+    actor: `did:${string}`,
+    options: { priority?: number; note?: string } = {},
+  ): Promise<ModerationCase> {
+    validateDid(actor);
+    subject = toSubject(subject);
+    const subjectUri = subject.$type === "com.atproto.admin.defs#repoRef" ? subject.did : subject.uri;
+
+    const now = new Date().toISOString();
+    const moderationCase: ModerationCase = {
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      _id: new ObjectId(),
+      subject,
+      subjectUri,
+      status: "open",
+      priority: options.priority ?? 0,
+      notes: options.note ? [{ author: actor, text: options.note, createdAt: now }] : [],
+      history: [{ action: "open", actor, to: "open", ...(options.note ? { note: options.note } : {}), createdAt: now }],
+      createdAt: now,
+      updatedAt: now,
+      version: 0,
+    };
+    try {
+      await this._cases.insertOne(moderationCase);
+      return moderationCase;
+    } catch (error) {
+      throw new Error(
+        `Failed to open case: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Get a case by ID.
+   *
+   * @param id - The case ID.
+   * @returns A promise that resolves to the case, or null if there is none.
+   */
+  async get(id: ObjectId): Promise<ModerationCase | null> {
+    try {
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      return await this._cases.findOne({ _id: id });
+    } catch (error) {
+      throw new Error(
+        `Failed to find case: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * List cases in review order: highest priority first, then oldest first.
+   *
+   * @param query - The filters to apply.
+   * @returns A promise that resolves to the matching cases.
+   */
+  async list(query: CaseQuery = {}): Promise<ModerationCase[]> {
+    const filter: Filter<ModerationCase> = {
+      status: query.status ?? { $ne: "closed" },
+    };
+    if (query.assignee !== undefined) {
+      filter.assignee = query.assignee ?? { $exists: false };
+    }
+    if (query.subject) {
+      filter.subjectUri = query.subject;
+    }
+
+    try {
+      return await this._cases
+        .find(filter)
+        .sort({ priority: -1, createdAt: 1 })
+        .limit(query.limit ?? DEFAULT_CASE_LIMIT)
+        .toArray();
+    } catch (error) {
+      throw new Error(
+        `Failed to list cases: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Claim an unclaimed case for review.
+   *
+   * @param id - The case ID.
+   * @param actor - The DID of the moderator claiming the case.
+   * @returns A promise that resolves to the claimed case, or null if there is no case with
+   * the ID that is neither closed nor claimed by another moderator.
+   */
+  async claim(id: ObjectId, actor: `did:${string}`): Promise<ModerationCase | null> {
+    return this._transition(id, actor, "claim", (current) =>
+      current.status !== "closed" && (!current.assignee || current.assignee === actor)
+        ? { status: current.status, set: { assignee: actor } }
+        : undefined
+    );
+  }
+
+  /**
+   * Escalate a case to senior moderators, releasing the current claim on it.
+   *
+   * @param id - The case ID.
+   * @param actor - The DID of the moderator escalating the case.
+   * @param note - Why the case is escalated.
+   * @returns A promise that resolves to the escalated case, or null if there is no open case
+   * with the ID.
+   */
+  async escalate(id: ObjectId, actor: `did:${string}`, note?: string): Promise<ModerationCase | null> {
+    return this._transition(id, actor, "escalate", (current) =>
+      current.status === "open" ? { status: "escalated", unsetAssignee: true } : undefined,
+      note,
+    );
+  }
+
+  /**
+   * Close a case without taking action.
+   *
+   * @param id - The case ID.
+   * @param actor - The DID of the moderator acknowledging the case.
+   * @param note - Why no action is taken.
+   * @returns A promise that resolves to the closed case, or null if there is no case with
+   * the ID that is not closed.
+   */
+  async acknowledge(id: ObjectId, actor: `did:${string}`, note?: string): Promise<ModerationCase | null> {
+    return this._transition(id, actor, "acknowledge", (current) =>
+      current.status !== "closed" ? { status: "closed" } : undefined,
+      note,
+    );
+  }
+
+  /**
+   * Resolve a case by labeling its subject, and close every other case for the same subject.
+   *
+   * The label is created with {@link LabelerServer.createLabel} on behalf of the
+   * moderator, so it is subject to the labeler's authorization policy and recorded
+   * in its moderation event log. A claimed case can only be resolved by its assignee;
+   * the other cases for the subject are closed whoever claimed them, since the label
+   * applies to them too.
+   *
+   * @param id - The case ID.
+   * @param actor - The DID of the moderator resolving the case.
+   * @param label - The label to apply, or negate, on the subject of the case.
+   * @param note - Why the label is applied, also recorded as the label's moderation event comment.
+   * @returns A promise that resolves to the created label and the cases it closed, or null if
+   * there is no case with the ID that is neither closed nor claimed by another moderator.
+   * @throws {LabelerServerError} If the label cannot be created
+   */
+  async resolveWithLabel(
+    id: ObjectId,
+    actor: `did:${string}`,
+    label: Omit<CreateLabelData, "uri" | "cid" | "ver">,
+    note?: string,
+  ): Promise<{ label: SignedLabel; cases: ModerationCase[] } | null> {
+    validateDid(actor);
+    const moderationCase = await this.get(id);
+    if (!moderationCase || !isResolvableBy(moderationCase, actor)) {
+      return null;
+    }
+
+    const { subject } = moderationCase;
+    const signedLabel = await this._server.createLabel(
+      {
+        ...label,
+        ver: 1,
+        ...(subject.$type === "com.atproto.repo.strongRef" ? { uri: subject.uri, cid: subject.cid } : { uri: subject.did }),
+      },
+      false,
+      { actor, ...(note ? { comment: note } : {}) },
+    );
+
+    let openCases: ModerationCase[];
+    try {
+      openCases = await this._cases.find({ subjectUri: moderationCase.subjectUri, status: { $ne: "closed" } }).toArray();
+    } catch (error) {
+      throw new Error(
+        `Failed to resolve cases: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    const closed: ModerationCase[] = [];
+    for (const openCase of openCases) {
+      const resolved = await this._transition(openCase._id, actor, "resolve", (current) =>
+        current.status !== "closed" && (!current._id.equals(id) || isResolvableBy(current, actor))
+          ? { status: "closed", label: { val: signedLabel.val, neg: signedLabel.neg ?? false } }
+          : undefined,
+        note,
+      );
+      if (resolved) {
+        closed.push(resolved);
+      }
+    }
+    return { label: signedLabel, cases: closed };
+  }
+
+  /**
+   * Apply an action to a case if it is in a state that allows it, recording the transition.
+   *
+   * The update only applies if the case's version is unchanged since it was read,
+   * so concurrent actions on the same case cannot both succeed.
+   */
+  private async _transition(
+    id: ObjectId,
+    actor: `did:${string}`,
+    action: CaseAction,
+    next: (current: ModerationCase) => {
+      status: CaseStatus;
+      set?: Partial<ModerationCase>;
+      unsetAssignee?: boolean;
+      label?: CaseTransition["label"];
+    } | undefined,
+    note?: string,
+  ): Promise<ModerationCase | null> {
+    validateDid(actor);
+    const current = await this.get(id);
+    const change = current ? next(current) : undefined;
+    if (!current || !change) {
+      return null;
+    }
+
+    const now = new Date().toISOString();
+    const transition: CaseTransition = {
+      action,
+      actor,
+      from: current.status,
+      to: change.status,
+      ...(note ? { note } : {}),
+      ...(change.label ? { label: change.label } : {}),
+      createdAt: now,
+    };
+    const update: UpdateFilter<ModerationCase> = {
+      $set: { ...change.set, status: change.status, updatedAt: now },
+      $inc: { version: 1 },
+      $push: {
+        history: transition,
+        ...(note ? { notes: { author: actor, text: note, createdAt: now } } : {}),
+      },
+      ...(change.unsetAssignee ? { $unset: { assignee: "" } } : {}),
+    };
+
+    try {
+      return await this._cases.findOneAndUpdate(
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        { _id: id, version: current.version },
+        update,
+        { returnDocument: "after" },
+      );
+    } catch (error) {
+      throw new Error(
+        `Failed to ${action} case: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+}
+
+/**
+ * Checks whether a moderator may resolve a case: it must not be closed, or claimed
+ * by another moderator.
+ */
+function isResolvableBy(moderationCase: ModerationCase, actor: `did:${string}`): boolean {
+  return moderationCase.status !== "closed" && (!moderationCase.assignee || moderationCase.assignee === actor);
+}
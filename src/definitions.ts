@@ -0,0 +1,195 @@
+import type { Collection } from "mongodb";
+import type { MongoDBClient } from "./mongodb.js";
+import type { LabelDefinition, LabelerPolicies } from "./types/index.js";
+import { validateLabelDefinition } from "./util/validators.js";
+
+const DEFINITIONS_COLLECTION_NAME = "label_definitions";
+
+/**
+ * The global label values, defined by the AT Protocol for every labeler, in
+ * `com.atproto.label.defs#labelValue`.
+ */
+export const GLOBAL_LABEL_VALUES: readonly string[] = ["!hide", "!no-promote", "!warn", "!no-unauthenticated"];
+
+/**
+ * A label definition as stored in the database.
+ */
+interface StoredLabelDefinition extends LabelDefinition {
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Registry of the custom label values a labeler declares, stored in MongoDB
+ * alongside its labels.
+ *
+ * Declared values are what `createLabel` accepts when label definitions are
+ * enforced, and are published in the `policies` of the labeler's
+ * `app.bsky.labeler.service` record.
+ *
+ * @param client The MongoDB client whose database holds the definitions.
+ */
+export class LabelDefinitionRegistry {
+  private readonly _client: MongoDBClient;
+
+  /**
+   * Create a new LabelDefinitionRegistry instance.
+   * @param client The MongoDB client whose database holds the definitions.
+   */
+  constructor(client: MongoDBClient) {
+    this._client = client;
+  }
+
+  private get _definitions(): Collection<StoredLabelDefinition> {
+    return this._client.collection<StoredLabelDefinition>(DEFINITIONS_COLLECTION_NAME);
+  }
+
+  /**
+   * Create the indexes the registry relies on. Must be called once the client is connected.
+   */
+  async init(): Promise<void> {
+    try {
+      await this._definitions.createIndex({ identifier: 1 }, { unique: true });
+    } catch (error) {
+      throw new Error(
+        `Failed to initialize label definitions: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Declare a label value, or replace the definition of an already declared one.
+   *
+   * @param definition - The label value definition.
+   * @returns A promise that resolves to the stored definition.
+   * @throws {AtProtocolValidationError} If the definition is invalid
+   */
+  async define(definition: LabelDefinition): Promise<LabelDefinition> {
+    validateLabelDefinition(definition);
+
+    const now = new Date().toISOString();
+    const { identifier, severity, blurs, defaultSetting, adultOnly, locales } = definition;
+    try {
+      await this._definitions.updateOne(
+        { identifier },
+        {
+          $set: {
+            identifier,
+            severity,
+            blurs,
+            defaultSetting: defaultSetting ?? "warn",
+            adultOnly: adultOnly ?? false,
+            locales: locales.map(({ lang, name, description }) => ({ lang, name, description })),
+            updatedAt: now,
+          },
+          $setOnInsert: { createdAt: now },
+        },
+        { upsert: true },
+      );
+    } catch (error) {
+      throw new Error(
+        `Failed to save label definition: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    const stored = await this.get(identifier);
+    if (!stored) {
+      throw new Error("Failed to save label definition: Definition not found after saving");
+    }
+    return stored;
+  }
+
+  /**
+   * Get the definition of a declared label value.
+   *
+   * @param identifier - The label value.
+   * @returns A promise that resolves to the definition, or null if the value is not declared.
+   */
+  async get(identifier: string): Promise<LabelDefinition | null> {
+    try {
+      const stored = await this._definitions.findOne({ identifier });
+      return stored ? toLabelDefinition(stored) : null;
+    } catch (error) {
+      throw new Error(
+        `Failed to find label definition: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * List every declared label value, in the order they were first declared.
+   *
+   * @returns A promise that resolves to the label definitions.
+   */
+  async list(): Promise<LabelDefinition[]> {
+    try {
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      const stored = await this._definitions.find().sort({ _id: 1 }).toArray();
+      return stored.map(toLabelDefinition);
+    } catch (error) {
+      throw new Error(
+        `Failed to list label definitions: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Remove the definition of a label value. Labels already emitted with it are kept.
+   *
+   * @param identifier - The label value.
+   * @returns A promise that resolves to true if the value was declared.
+   */
+  async remove(identifier: string): Promise<boolean> {
+    try {
+      const result = await this._definitions.deleteOne({ identifier });
+      return result.deletedCount > 0;
+    } catch (error) {
+      throw new Error(
+        `Failed to remove label definition: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Check whether a label value may be emitted. The global values in
+   * {@link GLOBAL_LABEL_VALUES} are always allowed; any other value must be declared.
+   *
+   * @param val - The label value.
+   * @returns A promise that resolves to true if the value may be emitted.
+   */
+  async isDeclared(val: string): Promise<boolean> {
+    if (GLOBAL_LABEL_VALUES.includes(val)) {
+      return true;
+    }
+    return (await this.get(val)) !== null;
+  }
+
+  /**
+   * Export the declared label values in the shape of the `policies` field of an
+   * `app.bsky.labeler.service` record.
+   *
+   * @returns A promise that resolves to the declared `labelValues` and their `labelValueDefinitions`.
+   */
+  async getLabelerPolicies(): Promise<LabelerPolicies> {
+    const labelValueDefinitions = await this.list();
+    return {
+      labelValues: labelValueDefinitions.map((definition) => definition.identifier),
+      labelValueDefinitions,
+    };
+  }
+}
+
+/**
+ * Strips storage metadata from a stored label definition.
+ */
+function toLabelDefinition(stored: StoredLabelDefinition): LabelDefinition {
+  const { identifier, severity, blurs, defaultSetting, adultOnly, locales } = stored;
+  return {
+    identifier,
+    severity,
+    blurs,
+    ...(defaultSetting ? { defaultSetting } : {}),
+    ...(adultOnly !== undefined ? { adultOnly } : {}),
+    locales: locales.map(({ lang, name, description }) => ({ lang, name, description })),
+  };
+}
@@ -0,0 +1,9 @@
+/**
+* Error class for label operations an actor is not allowed to perform
+*/
+export class AuthorizationError extends Error {
+    constructor(message: string, public readonly actor?: string) {
+      super(message);
+      this.name = "AuthorizationError";
+    }
+  }
@@ -0,0 +1,9 @@
+/**
+* Error class for saving a label whose idempotency key is already used by a stored label
+*/
+export class DuplicateIdempotencyKeyError extends Error {
+    constructor(public readonly idempotencyKey: string) {
+      super(`A label with idempotency key "${idempotencyKey}" is already stored`);
+      this.name = "DuplicateIdempotencyKeyError";
+    }
+  }
@@ -0,0 +1,9 @@
+/**
+* Error class for XRPC request failures, returned to clients as `{ error, message }`
+*/
+export class XRPCError extends Error {
+    constructor(public readonly status: number, public readonly error: string, message?: string) {
+      super(message ?? error);
+      this.name = "XRPCError";
+    }
+  }
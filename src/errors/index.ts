@@ -1,2 +1,5 @@
 export { AtProtocolValidationError } from "./AtProtocolValidationError";
-export { LabelerServerError } from "./LabelerServerError";
\ No newline at end of file
+export { AuthorizationError } from "./AuthorizationError";
+export { DuplicateIdempotencyKeyError } from "./DuplicateIdempotencyKeyError";
+export { LabelerServerError } from "./LabelerServerError";
+export { XRPCError } from "./XRPCError";
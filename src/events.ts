@@ -0,0 +1,183 @@
+import { type Collection, type Filter, ObjectId } from "mongodb";
+import type { MongoDBClient } from "./mongodb.js";
+
+const EVENTS_COLLECTION_NAME = "moderation_events";
+const DEFAULT_EVENT_LIMIT = 50;
+
+/**
+ * The kind of label operation a moderation event records.
+ *
+ * - `label`: a label was applied.
+ * - `negate`: a label was negated, through `deleteLabel` or a `neg` label.
+ * - `reverseNegation`: a stored label's negation was flipped in place.
+ */
+export type ModerationEventType = "label" | "negate" | "reverseNegation";
+
+/**
+ * A moderation event, recording who performed a label operation and why.
+ */
+export interface ModerationEvent {
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  _id: ObjectId;
+  /** The kind of operation. */
+  type: ModerationEventType;
+  /** The DID of the moderator who performed the operation. */
+  actor: `did:${string}`;
+  /** The labeled subject. */
+  subject: { uri: string; cid?: string };
+  /** The label value. */
+  val: string;
+  /** The ID of the stored label the operation resulted in. */
+  labelId: ObjectId;
+  /** Why the operation was performed. */
+  comment?: string;
+  /** When the operation was performed, in ISO 8601 format. */
+  createdAt: string;
+}
+
+/**
+ * Filters for querying moderation events. All filters are optional and combined.
+ *
+ * @param subject Only events for this subject URI.
+ * @param actor Only events performed by this moderator DID.
+ * @param type Only events of this kind.
+ * @param since Only events performed at or after this time.
+ * @param until Only events performed before this time.
+ * @param limit The maximum number of events to return. Defaults to 50.
+ */
+export interface ModerationEventQuery {
+  subject?: string;
+  actor?: `did:${string}`;
+  type?: ModerationEventType;
+  since?: Date | string;
+  until?: Date | string;
+  limit?: number;
+}
+
+/**
+ * Append-only log of the moderation events behind the labels a labeler emits,
+ * stored in MongoDB alongside its labels.
+ *
+ * `createLabel`, `createLabels`, `deleteLabel` and `reverseLabelNegation` record
+ * an event for every label they store, so the history of why a label was
+ * applied can be audited.
+ *
+ * @param client The MongoDB client whose database holds the events.
+ */
+export class ModerationEventLog {
+  private readonly _client: MongoDBClient;
+
+  /**
+   * Create a new ModerationEventLog instance.
+   * @param client The MongoDB client whose database holds the events.
+   */
+  constructor(client: MongoDBClient) {
+    this._client = client;
+  }
+
+  private get _events(): Collection<ModerationEvent> {
+    return this._client.collection<ModerationEvent>(EVENTS_COLLECTION_NAME);
+  }
+
+  /**
+   * Create the indexes the log relies on. Must be called once the client is connected.
+   */
+  async init(): Promise<void> {
+    try {
+      await this._events.createIndexes([
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        { key: { "subject.uri": 1, createdAt: -1 } },
+        { key: { actor: 1, createdAt: -1 } },
+        { key: { createdAt: -1 } },
+      ]);
+    } catch (error) {
+      throw new Error(
+        `Failed to initialize moderation events: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Append events to the log.
+   *
+   * @param events - The events to record, without IDs. `createdAt` defaults to now.
+   * @returns A promise that resolves to the recorded events.
+   */
+  async record(
+    events: Array<Omit<ModerationEvent, "_id" | "createdAt"> & { createdAt?: string }>,
+  ): Promise<ModerationEvent[]> {
+    if (events.length === 0) {
+      return [];
+    }
+
+    const now = new Date().toISOString();
+    const stored: ModerationEvent[] = events.map(({ type, actor, subject, val, labelId, comment, createdAt }) => ({
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      _id: new ObjectId(),
+      type,
+      actor,
+      subject: { uri: subject.uri, ...(subject.cid ? { cid: subject.cid } : {}) },
+      val,
+      labelId,
+      ...(comment ? { comment } : {}),
+      createdAt: createdAt ?? now,
+    }));
+    try {
+      await this._events.insertMany(stored);
+      return stored;
+    } catch (error) {
+      throw new Error(
+        `Failed to record moderation events: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Find moderation events by subject, actor, kind and time range, most recent first.
+   *
+   * @param query - The filters to apply.
+   * @returns A promise that resolves to the matching events.
+   */
+  async query(query: ModerationEventQuery = {}): Promise<ModerationEvent[]> {
+    const filter: Filter<ModerationEvent> = {};
+    if (query.subject) {
+      filter["subject.uri"] = query.subject;
+    }
+    if (query.actor) {
+      filter.actor = query.actor;
+    }
+    if (query.type) {
+      filter.type = query.type;
+    }
+    if (query.since !== undefined || query.until !== undefined) {
+      filter.createdAt = {
+        ...(query.since !== undefined ? { $gte: toIsoString(query.since, "since") } : {}),
+        ...(query.until !== undefined ? { $lt: toIsoString(query.until, "until") } : {}),
+      };
+    }
+
+    try {
+      return await this._events
+        .find(filter)
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        .sort({ createdAt: -1, _id: -1 })
+        .limit(query.limit ?? DEFAULT_EVENT_LIMIT)
+        .toArray();
+    } catch (error) {
+      throw new Error(
+        `Failed to query moderation events: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+}
+
+/**
+ * Normalizes a time range bound to the ISO form events are stored with.
+ */
+function toIsoString(value: Date | string, name: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Failed to query moderation events: Invalid ${name} time`);
+  }
+  return date.toISOString();
+}
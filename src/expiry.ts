@@ -0,0 +1,212 @@
+import type { LabelerServer } from "./LabelerServer.js";
+import type { LabelQuery } from "./store.js";
+import type { SavedLabel, SignedLabel } from "./util/types.js";
+
+const DEFAULT_SWEEP_INTERVAL = 60_000;
+const DEFAULT_SWEEP_BATCH_SIZE = 100;
+
+/**
+ * Options for sweeping expired labels.
+ *
+ * @param interval How often to sweep once started, in milliseconds. Defaults to one minute.
+ * @param negate Whether to emit a signed negation for each expired label, as
+ * {@link LabelerServer.deleteLabel} does. Defaults to true. Without negations nothing
+ * is written, so labels are reported to listeners again after a restart.
+ * @param batchSize The maximum number of expired labels loaded at once. Defaults to 100.
+ * @param now The clock deciding which labels have expired. Defaults to the system clock.
+ */
+export interface ExpirySweeperOptions {
+  interval?: number;
+  negate?: boolean;
+  batchSize?: number;
+  now?: () => Date;
+}
+
+/**
+ * A label that lapsed, and the negation emitted for it, if any.
+ */
+export interface ExpiredLabel {
+  label: SavedLabel;
+  negation?: SignedLabel;
+}
+
+/**
+ * Called with the labels that lapsed in a sweep.
+ */
+export type ExpiryListener = (expired: ExpiredLabel[]) => void | Promise<void>;
+
+/**
+ * Result of a sweep.
+ *
+ * @param expired The labels that lapsed, and their negations.
+ * @param errors The labels that could not be negated, and why. They are retried on the next sweep.
+ */
+export interface ExpirySweepResult {
+  expired: ExpiredLabel[];
+  errors: Array<{ label: SavedLabel; error: Error }>;
+}
+
+/**
+ * Finds labels whose `exp` has passed and lets consumers know they lapsed.
+ *
+ * Expired labels are otherwise only left out when labels are queried, so
+ * consumers that cached them never learn they lapsed. The sweeper negates each
+ * expired label through {@link LabelerServer.deleteLabel}, which streams the
+ * negation to `subscribeLabels` subscribers, and notifies its own listeners.
+ *
+ * Labels already superseded by a later label with the same source, subject and
+ * value are skipped, so restarting the sweeper does not negate them twice.
+ *
+ * @param server The labeler whose labels are swept.
+ * @param options How often and how labels are swept.
+ */
+export class ExpirySweeper {
+  private readonly _server: LabelerServer;
+  private readonly _interval: number;
+  private readonly _negate: boolean;
+  private readonly _batchSize: number;
+  private readonly _now: () => Date;
+
+  private readonly _listeners = new Set<ExpiryListener>();
+  private _timer?: ReturnType<typeof setInterval>;
+  private _sweeping?: Promise<ExpirySweepResult>;
+  /**
+   * The time the last complete sweep reached, and the highest sequence number stored
+   * when it started. Labels stored after that are swept whenever they expire.
+   */
+  private _swept?: { until: string; seq: number };
+
+  /**
+   * Create a new ExpirySweeper instance.
+   * @param server The labeler whose labels are swept.
+   * @param options How often and how labels are swept.
+   */
+  constructor(server: LabelerServer, options: ExpirySweeperOptions = {}) {
+    this._server = server;
+    this._interval = options.interval ?? DEFAULT_SWEEP_INTERVAL;
+    this._negate = options.negate ?? true;
+    this._batchSize = options.batchSize ?? DEFAULT_SWEEP_BATCH_SIZE;
+    this._now = options.now ?? ((): Date => new Date());
+  }
+
+  /**
+   * Whether the sweeper runs in the background.
+   */
+  get running(): boolean {
+    return this._timer !== undefined;
+  }
+
+  /**
+   * Listen for labels that lapse.
+   *
+   * @param listener - Called after each sweep that finds expired labels.
+   * @returns A function that removes the listener.
+   */
+  subscribe(listener: ExpiryListener): () => void {
+    this._listeners.add(listener);
+    return () => {
+      this._listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Sweep the labels that have expired since the last sweep.
+   *
+   * Only one sweep runs at a time; calling this during a sweep waits for it.
+   *
+   * @returns A promise that resolves to the labels that lapsed.
+   */
+  async sweep(): Promise<ExpirySweepResult> {
+    this._sweeping ??= this._sweep().finally(() => {
+      this._sweeping = undefined;
+    });
+    return this._sweeping;
+  }
+
+  /**
+   * Sweep in the background every interval, until {@link ExpirySweeper.stop} is called.
+   */
+  start(): void {
+    if (this._timer) {
+      return;
+    }
+    this._timer = setInterval(() => {
+      this.sweep().catch((error: unknown) => {
+        console.error("Failed to sweep expired labels:", error);
+      });
+    }, this._interval);
+    this._timer.unref();
+  }
+
+  /**
+   * Stop sweeping in the background, waiting for a sweep in progress to finish.
+   */
+  async stop(): Promise<void> {
+    clearInterval(this._timer);
+    this._timer = undefined;
+    await this._sweeping?.catch(() => undefined);
+  }
+
+  private async _sweep(): Promise<ExpirySweepResult> {
+    const now = this._now().toISOString();
+    const result: ExpirySweepResult = { expired: [], errors: [] };
+    const latest = await this._server.db.findLabels({ allowExpired: true }, { sort: { seq: -1 }, limit: 1 });
+
+    // Labels that expired before the last sweep were swept then, unless they were stored after it started
+    const expired: LabelQuery = this._swept
+      ? { exp: { $lte: now }, $or: [{ exp: { $gt: this._swept.until } }, { seq: { $gt: this._swept.seq } }] }
+      : { exp: { $lte: now } };
+    let cursor: SavedLabel | undefined;
+    let batch: SavedLabel[];
+    do {
+      // Page through labels by expiry, then sequence number, as several may expire at once
+      const page: LabelQuery = cursor
+        ? { $and: [expired, { $or: [{ exp: { $gt: cursor.exp } }, { exp: cursor.exp, seq: { $gt: cursor.seq } }] }] }
+        : expired;
+      batch = await this._server.db.findLabels(
+        { ...page, neg: { $ne: true }, allowExpired: true },
+        { sort: { exp: 1, seq: 1 }, limit: this._batchSize },
+      );
+      for (const label of batch) {
+        try {
+          if (await this._isSuperseded(label)) {
+            continue;
+          }
+          const negation = this._negate
+            ? await this._server.deleteLabel(label._id, { actor: this._server.did, comment: "Label expired" })
+            : null;
+          result.expired.push({ label, ...(negation ? { negation } : {}) });
+        } catch (error) {
+          result.errors.push({ label, error: error instanceof Error ? error : new Error(String(error)) });
+        }
+      }
+      cursor = batch[batch.length - 1];
+    } while (batch.length === this._batchSize);
+
+    // Labels that could not be negated are retried from the same point on the next sweep
+    if (!result.errors.length) {
+      this._swept = { until: now, seq: latest.length ? latest[0].seq : 0 };
+    }
+
+    if (result.expired.length) {
+      for (const listener of this._listeners) {
+        await listener(result.expired);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Checks whether a later label with the same source, subject and value replaced a label.
+   */
+  private async _isSuperseded(label: SavedLabel): Promise<boolean> {
+    const later = await this._server.db.countLabels({
+      src: label.src,
+      uri: label.uri,
+      val: label.val,
+      seq: { $gt: label.seq },
+      allowExpired: true,
+    });
+    return later > 0;
+  }
+}
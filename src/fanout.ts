@@ -0,0 +1,192 @@
+import { setTimeout as delay } from "node:timers/promises";
+import {
+  type ChangeStream,
+  type ChangeStreamInsertDocument,
+  type Collection,
+  MongoServerError,
+  type ResumeToken,
+} from "mongodb";
+import { fromStoredLabel, type MongoDBClient, type StoredLabel } from "./mongodb.js";
+import type { SavedLabel } from "./util/types.js";
+
+const TOKENS_COLLECTION_NAME = "change_stream_tokens";
+const DEFAULT_RETRY_DELAY = 1_000;
+/** The server error returned when a resume token is older than the oplog. */
+const CHANGE_STREAM_HISTORY_LOST = 286;
+
+/**
+ * Options for fanning out labels through a change stream.
+ *
+ * @param id The name this instance stores its resume token under. Each server
+ * instance needs its own.
+ * @param retryDelay How long to wait before reopening the change stream after it
+ * fails, in milliseconds. Defaults to 1 second.
+ */
+export interface ChangeStreamFanoutOptions {
+  id: string;
+  retryDelay?: number;
+}
+
+/**
+ * A change stream resume token, stored so that an instance resumes where it left off.
+ */
+interface StoredResumeToken {
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  _id: string;
+  token: ResumeToken;
+  updatedAt: string;
+}
+
+type LabelInsert = ChangeStreamInsertDocument<StoredLabel>;
+
+/**
+ * Tails the labels collection with a MongoDB change stream and publishes every
+ * inserted label, whichever server instance stored it.
+ *
+ * The resume token of the last published label is stored in the
+ * `change_stream_tokens` collection, so after a restart the instance resumes
+ * from where it stopped instead of missing the labels stored in between. Change
+ * streams require a replica set or sharded cluster.
+ *
+ * @param client The MongoDB client whose labels collection is tailed.
+ * @param options The name of the instance's resume token and the retry delay.
+ * @param publish Called with each inserted label, in insertion order.
+ */
+export class ChangeStreamFanout {
+  private readonly _client: MongoDBClient;
+  private readonly _id: string;
+  private readonly _retryDelay: number;
+  private readonly _publish: (label: SavedLabel) => void;
+
+  private _stream?: ChangeStream<StoredLabel, LabelInsert>;
+  private _running?: Promise<void>;
+  private _stopped = true;
+
+  /**
+   * Create a new ChangeStreamFanout instance.
+   * @param client The MongoDB client whose labels collection is tailed.
+   * @param options The name of the instance's resume token and the retry delay.
+   * @param publish Called with each inserted label, in insertion order.
+   */
+  constructor(client: MongoDBClient, options: ChangeStreamFanoutOptions, publish: (label: SavedLabel) => void) {
+    if (!options.id) {
+      throw new Error("Change stream fan-out requires an id");
+    }
+    this._client = client;
+    this._id = options.id;
+    this._retryDelay = options.retryDelay ?? DEFAULT_RETRY_DELAY;
+    this._publish = publish;
+  }
+
+  private get _tokens(): Collection<StoredResumeToken> {
+    return this._client.collection<StoredResumeToken>(TOKENS_COLLECTION_NAME);
+  }
+
+  /**
+   * Whether the change stream is being tailed.
+   */
+  get running(): boolean {
+    return this._running !== undefined;
+  }
+
+  /**
+   * Open the change stream, resuming from the stored resume token if there is one,
+   * and publish inserted labels until {@link ChangeStreamFanout.stop} is called.
+   *
+   * @throws {Error} If the change stream cannot be opened
+   */
+  async start(): Promise<void> {
+    if (this._running) {
+      return;
+    }
+    this._stopped = false;
+
+    let opened: { stream: ChangeStream<StoredLabel, LabelInsert>; first: LabelInsert | null };
+    try {
+      opened = await this._open();
+    } catch (error) {
+      this._stopped = true;
+      throw new Error(
+        `Failed to open change stream: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+    this._running = this._run(opened);
+  }
+
+  /**
+   * Close the change stream, waiting for the label being published to be done.
+   */
+  async stop(): Promise<void> {
+    this._stopped = true;
+    await this._stream?.close().catch(() => undefined);
+    await this._running;
+    this._stream = undefined;
+    this._running = undefined;
+  }
+
+  /**
+   * Publishes inserted labels, reopening the change stream from the last stored
+   * resume token whenever it fails.
+   */
+  private async _run(opened?: { stream: ChangeStream<StoredLabel, LabelInsert>; first: LabelInsert | null }): Promise<void> {
+    do {
+      try {
+        const { stream, first } = opened ?? await this._open();
+        opened = undefined;
+        if (first) {
+          await this._handle(first);
+        }
+        for await (const change of stream) {
+          await this._handle(change);
+        }
+      } catch (error) {
+        if (this._stopped) {
+          break;
+        }
+        console.error("Label change stream failed:", error);
+        if (error instanceof MongoServerError && error.code === CHANGE_STREAM_HISTORY_LOST) {
+          // The stored token is too old to resume from; start again from now
+          // eslint-disable-next-line @typescript-eslint/naming-convention
+          await this._tokens.deleteOne({ _id: this._id }).catch(() => undefined);
+        }
+        await delay(this._retryDelay);
+      }
+    } while (!this._stopped);
+  }
+
+  /**
+   * Opens the change stream and waits for its cursor to be established, so that no
+   * label stored after {@link ChangeStreamFanout.start} returns is missed.
+   */
+  private async _open(): Promise<{ stream: ChangeStream<StoredLabel, LabelInsert>; first: LabelInsert | null }> {
+    await this._stream?.close().catch(() => undefined);
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    const stored = await this._tokens.findOne({ _id: this._id });
+    const stream = this._client
+      .collection<StoredLabel>(this._client.collectionName)
+      .watch<StoredLabel, LabelInsert>(
+        [{ $match: { operationType: "insert" } }],
+        stored ? { resumeAfter: stored.token } : {},
+      );
+    this._stream = stream;
+    const first = await stream.tryNext();
+    return { stream, first };
+  }
+
+  /**
+   * Publishes an inserted label and stores the resume token after it.
+   */
+  private async _handle(change: LabelInsert): Promise<void> {
+    try {
+      this._publish(fromStoredLabel(change.fullDocument));
+    } catch (error) {
+      console.error("Failed to publish label from change stream:", error);
+    }
+    await this._tokens.updateOne(
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      { _id: this._id },
+      { $set: { token: change._id, updatedAt: new Date().toISOString() } },
+      { upsert: true },
+    );
+  }
+}
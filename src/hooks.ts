@@ -0,0 +1,128 @@
+import type { AtProtocolValidationError } from "./errors";
+import type { CreateLabelData, ModerationContext, SavedLabel } from "./util/types.js";
+
+/**
+ * The hooks run at each stage of a label's lifecycle.
+ *
+ * - `beforeCreate`: before a label is validated, for `createLabel`, `createLabels` and
+ *   `emitEvent`. Returns replacement data, `false` to veto the label, or nothing to keep it.
+ * - `afterCreate`: after a created label is stored and streamed to subscribers.
+ * - `afterNegate`: after a negation written by `deleteLabel` is stored.
+ * - `afterReverse`: after `reverseLabelNegation` saves a label with its negation reversed.
+ * - `onValidationError`: when the data of a label to create is invalid.
+ */
+export interface LabelHookMap {
+  beforeCreate: (
+    data: CreateLabelData,
+    context: ModerationContext,
+  ) => CreateLabelData | false | void | Promise<CreateLabelData | false | void>;
+  afterCreate: (label: SavedLabel, context: ModerationContext) => void | Promise<void>;
+  afterNegate: (label: SavedLabel, context: ModerationContext) => void | Promise<void>;
+  afterReverse: (label: SavedLabel, context: ModerationContext) => void | Promise<void>;
+  onValidationError: (
+    error: AtProtocolValidationError,
+    data: CreateLabelData,
+    context: ModerationContext,
+  ) => void | Promise<void>;
+}
+
+/**
+ * The name of a label lifecycle hook.
+ */
+export type LabelHookName = keyof LabelHookMap;
+
+/**
+ * The hooks run after a label is stored.
+ */
+type AfterHookName = "afterCreate" | "afterNegate" | "afterReverse";
+
+/**
+ * The hooks registered on a LabelerServer, run in the order they were registered.
+ *
+ * `beforeCreate` hooks are chained, each receiving the data returned by the one
+ * before it; an error thrown by one fails the label. Errors thrown by the other
+ * hooks are logged, since the operation they observe has already happened.
+ */
+export class LabelHooks {
+  private readonly _hooks: { [K in LabelHookName]: Set<LabelHookMap[K]> } = {
+    beforeCreate: new Set(),
+    afterCreate: new Set(),
+    afterNegate: new Set(),
+    afterReverse: new Set(),
+    onValidationError: new Set(),
+  };
+
+  /**
+   * Register a hook.
+   *
+   * @param name - The lifecycle stage to run the hook at.
+   * @param hook - The hook.
+   * @returns A function that removes the hook.
+   */
+  on<K extends LabelHookName>(name: K, hook: LabelHookMap[K]): () => void {
+    this._hooks[name].add(hook);
+    return () => {
+      this.off(name, hook);
+    };
+  }
+
+  /**
+   * Remove a hook.
+   *
+   * @param name - The lifecycle stage the hook was registered for.
+   * @param hook - The hook.
+   */
+  off<K extends LabelHookName>(name: K, hook: LabelHookMap[K]): void {
+    this._hooks[name].delete(hook);
+  }
+
+  /**
+   * Run the `beforeCreate` hooks on the data of a label.
+   *
+   * @returns The data to create the label from, or false if a hook vetoed it.
+   */
+  async beforeCreate(data: CreateLabelData, context: ModerationContext): Promise<CreateLabelData | false> {
+    for (const hook of this._hooks.beforeCreate) {
+      const result = await hook(data, context);
+      if (result === false) {
+        return false;
+      }
+      if (result) {
+        data = result;
+      }
+    }
+    return data;
+  }
+
+  /**
+   * Run the hooks observing stored labels.
+   */
+  async after(name: AfterHookName, labels: SavedLabel[], context: ModerationContext): Promise<void> {
+    for (const hook of this._hooks[name]) {
+      for (const label of labels) {
+        try {
+          await hook(label, context);
+        } catch (error) {
+          console.error(`Failed to run ${name} hook:`, error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Run the `onValidationError` hooks.
+   */
+  async validationError(
+    error: AtProtocolValidationError,
+    data: CreateLabelData,
+    context: ModerationContext,
+  ): Promise<void> {
+    for (const hook of this._hooks.onValidationError) {
+      try {
+        await hook(error, data, context);
+      } catch (hookError) {
+        console.error("Failed to run onValidationError hook:", hookError);
+      }
+    }
+  }
+}
@@ -1,9 +1,76 @@
 export { LabelerServer } from "./LabelerServer.js";
 export { MongoDBClient } from "./mongodb.js";
+export { MemoryLabelStore } from "./memory.js";
+export { LabelDefinitionRegistry, GLOBAL_LABEL_VALUES } from "./definitions.js";
+export { ModerationEventLog } from "./events.js";
+export { LabelAuthorizer, verifyServiceJwt } from "./auth.js";
+export { ReportManager } from "./reports.js";
+export { CaseQueue } from "./cases.js";
+export { ExpirySweeper } from "./expiry.js";
+export { ChangeStreamFanout } from "./fanout.js";
+export {
+  LabelSchemaManager,
+  LABEL_INDEXES,
+  LABEL_SCHEMA,
+  EXPIRED_LABEL_TTL_INDEX_NAME,
+  hasSchemaDrift,
+} from "./schema.js";
+export { MigrationRunner, LABEL_MIGRATIONS, LABEL_DATES_MIGRATION_VERSION } from "./migrations.js";
+export {
+  WebhookDispatcher,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WEBHOOK_ID_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from "./webhooks.js";
+export * from "./setup.js";
 export * from "./util/validators.js";
 export * from "./util/labels.js";
+export * from "./util/did.js";
 export * from "./util/util.js";
 export * from "./util/errorUtils.js";
 export type { LabelerOptions } from "./LabelerServer.js";
+export type { MongoDBClientOptions, MongoDBTlsOptions, StoredLabel } from "./mongodb.js";
+export type { ModerationEvent, ModerationEventQuery, ModerationEventType } from "./events.js";
+export type { AuthorizationPolicy, LabelAction, ModeratorGrant, ServiceAuthOptions } from "./auth.js";
+export type { Report, ReportQuery, ReportStatus } from "./reports.js";
+export type { CaseAction, CaseNote, CaseQuery, CaseStatus, CaseTransition, ModerationCase } from "./cases.js";
+export type { ExpiredLabel, ExpiryListener, ExpirySweeperOptions, ExpirySweepResult } from "./expiry.js";
+export type { LabelHookMap, LabelHookName } from "./hooks.js";
+export type { ChangeStreamFanoutOptions } from "./fanout.js";
+export type { SchemaDriftReport, SchemaValidationMode } from "./schema.js";
+export type {
+  Migration,
+  MigrationResult,
+  MigrationRunnerOptions,
+  MigrationSigner,
+  MigrationStatus,
+} from "./migrations.js";
+export type {
+  WebhookDelivery,
+  WebhookDeliveryQuery,
+  WebhookDeliveryResult,
+  WebhookDeliveryStatus,
+  WebhookEndpoint,
+  WebhookEventType,
+  WebhookOptions,
+  WebhookPayload,
+} from "./webhooks.js";
+export type {
+  ActiveLabelOptions,
+  LabelFindOptions,
+  LabelQuery,
+  LabelStore,
+  SaveLabelsOptions,
+  SaveLabelsResult,
+} from "./store.js";
 export * from "./util/types.js";
+export type {
+  LabelDefinition,
+  LabelDefinitionLocale,
+  LabelerConfig,
+  LabelerPolicies,
+  LoginCredentials,
+} from "./types/index.js";
 export * from "./errors/index.js";
@@ -0,0 +1,318 @@
+import { ObjectId, type Filter } from "mongodb";
+import type {
+  ActiveLabelOptions,
+  LabelFindOptions,
+  LabelQuery,
+  LabelStore,
+  SaveLabelsOptions,
+  SaveLabelsResult,
+} from "./store.js";
+import type { SavedLabel, UnsignedLabel } from "./util/types.js";
+import { DuplicateIdempotencyKeyError } from "./errors";
+
+/**
+ * A label store that keeps labels in memory.
+ *
+ * Queries support the subset of MongoDB filter syntax used by the labeler:
+ * equality, `$and`, `$or`, `$nor`, `$eq`, `$ne`, `$in`, `$nin`, `$gt`, `$gte`,
+ * `$lt`, `$lte`, `$exists`, `$regex` and `$type: "null"`. Labels are lost when
+ * the process exits, so this store is meant for tests and tools that don't run MongoDB.
+ */
+export class MemoryLabelStore implements LabelStore {
+  private readonly _labels: SavedLabel[] = [];
+  private _seq = 0;
+
+  /**
+   * The in-memory store needs no setup; this resolves immediately.
+   */
+  async connect(): Promise<void> {
+    // Nothing to connect to
+  }
+
+  /**
+   * The in-memory store holds no resources; this resolves immediately.
+   */
+  async close(): Promise<void> {
+    // Nothing to close
+  }
+
+  /**
+   * Save a label, assigning it an ID and the next sequence number.
+   *
+   * @param label - The label to save, including a signature as an ArrayBuffer.
+   * @returns A promise that resolves to the saved label.
+   * @throws {DuplicateIdempotencyKeyError} If a stored label has the same idempotency key
+   */
+  async saveLabel(label: UnsignedLabel & { sig: ArrayBuffer; idempotencyKey?: string }): Promise<SavedLabel> {
+    if (label.idempotencyKey !== undefined && this._labels.some(l => l.idempotencyKey === label.idempotencyKey)) {
+      throw new DuplicateIdempotencyKeyError(label.idempotencyKey);
+    }
+    const { exp, ...rest } = label;
+    const savedLabel: SavedLabel = {
+      ...rest,
+      cts: new Date(String(label.cts)).toISOString(),
+      ...(exp ? { exp: new Date(exp).toISOString() } : {}),
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      _id: new ObjectId(),
+      seq: ++this._seq,
+    };
+    this._labels.push(savedLabel);
+    return { ...savedLabel };
+  }
+
+  /**
+   * Save a batch of labels in order, assigning them consecutive sequence numbers.
+   *
+   * @param labels - The labels to save, each including a signature as an ArrayBuffer.
+   * @param options - Whether to stop at the first label that fails. Defaults to true.
+   * @returns A promise that resolves to the saved labels and the errors, by index.
+   */
+  async saveLabels(
+    labels: Array<UnsignedLabel & { sig: ArrayBuffer; idempotencyKey?: string }>,
+    options: SaveLabelsOptions = {},
+  ): Promise<SaveLabelsResult> {
+    const ordered = options.ordered ?? true;
+    const result: SaveLabelsResult = { saved: [], errors: [] };
+    for (const [index, label] of labels.entries()) {
+      if (ordered && result.errors.length > 0) {
+        result.errors.push({
+          index,
+          error: new Error("Failed to save label: Not saved because an earlier label in the batch failed"),
+        });
+        continue;
+      }
+      try {
+        result.saved.push({ index, label: await this.saveLabel(label) });
+      } catch (error) {
+        result.errors.push({
+          index,
+          error: error instanceof DuplicateIdempotencyKeyError
+            ? error
+            : new Error(`Failed to save label: ${error instanceof Error ? error.message : String(error)}`),
+        });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Find labels matching the given query.
+   *
+   * @param query - The query object to filter labels.
+   * @param options - Optional settings for the query, such as sort and limit.
+   * @returns A promise that resolves to an array of labels matching the query.
+   */
+  async findLabels(query: LabelQuery = {}, options: LabelFindOptions = {}): Promise<SavedLabel[]> {
+    const labels = this._match(query);
+    if (options.sort) {
+      const sort = Object.entries(options.sort) as Array<[keyof SavedLabel, 1 | -1]>;
+      labels.sort((a, b) => {
+        for (const [field, direction] of sort) {
+          const order = compareValues(a[field], b[field]);
+          if (order !== 0) {
+            return order * direction;
+          }
+        }
+        return 0;
+      });
+    }
+    const start = options.skip ?? 0;
+    const end = options.limit ? start + options.limit : undefined;
+    return labels.slice(start, end).map(label => ({ ...label }));
+  }
+
+  /**
+   * Count the labels matching the given query.
+   *
+   * @param query - The query object to filter labels.
+   * @returns A promise that resolves to the number of matching labels.
+   */
+  async countLabels(query: LabelQuery = {}): Promise<number> {
+    return this._match(query).length;
+  }
+
+  /**
+   * Resolve the labels that currently apply to a subject, keeping the latest
+   * label for each source and value.
+   *
+   * @param uri - The subject URI.
+   * @param options - Options to narrow down the labels considered.
+   * @returns A promise that resolves to the effective labels, in sequence order.
+   */
+  async getActiveLabels(uri: string, options: ActiveLabelOptions = {}): Promise<SavedLabel[]> {
+    const history = await this.findLabels(
+      { uri, ...(options.src ? { src: options.src } : {}), allowExpired: true },
+      { sort: { cts: -1, seq: -1 } },
+    );
+    const latest = new Map<string, SavedLabel>();
+    for (const label of history) {
+      const key = JSON.stringify([label.src, label.val]);
+      if (!latest.has(key)) {
+        latest.set(key, label);
+      }
+    }
+    const now = new Date().toISOString();
+    return [...latest.values()]
+      .filter(label => !label.neg && (!label.exp || label.exp > now))
+      .sort((a, b) => a.seq - b.seq);
+  }
+
+  /**
+   * Find a single label matching the given query, including expired labels.
+   *
+   * @param query - The query object to filter labels.
+   * @returns A promise that resolves to the matching label or null if not found.
+   */
+  async findOne(query: Filter<SavedLabel>): Promise<SavedLabel | null> {
+    const labels = this._match({ ...query, allowExpired: true });
+    return labels.length ? { ...labels[0] } : null;
+  }
+
+  /**
+   * Retrieve a limited number of labels that have a sequence number greater than the specified cursor.
+   *
+   * @param cursor - The sequence number after which labels should be retrieved.
+   * @param limit - The maximum number of labels to return.
+   * @returns A promise that resolves to an array of labels with sequence numbers greater than the cursor.
+   */
+  async getLabelsAfterCursor(cursor: number, limit: number): Promise<SavedLabel[]> {
+    return this.findLabels({ seq: { $gt: cursor }, allowExpired: true }, { sort: { seq: 1 }, limit });
+  }
+
+  /**
+   * Update an existing label.
+   *
+   * @param id - The ID of the label to update.
+   * @param label - The new label data.
+   * @returns A promise that resolves to true if the update was successful, false if the label wasn't found.
+   */
+  async updateLabel(id: ObjectId, label: UnsignedLabel & { sig: ArrayBuffer }): Promise<boolean> {
+    const stored = this._labels.find(l => l._id.equals(id));
+    if (!stored) {
+      return false;
+    }
+    Object.assign(stored, label);
+    return true;
+  }
+
+  /**
+   * Returns the stored labels matching a query, in insertion order.
+   */
+  private _match(query: LabelQuery): SavedLabel[] {
+    const { allowExpired, ...filter } = query;
+    const now = new Date().toISOString();
+    return this._labels.filter(label =>
+      (allowExpired || !label.exp || label.exp > now) && matchesFilter(label, filter)
+    );
+  }
+}
+
+/**
+ * Checks whether a label matches a MongoDB filter document.
+ */
+function matchesFilter(label: SavedLabel, filter: Record<string, unknown>): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    switch (key) {
+      case "$and":
+        return (condition as Array<Record<string, unknown>>).every(f => matchesFilter(label, f));
+      case "$or":
+        return (condition as Array<Record<string, unknown>>).some(f => matchesFilter(label, f));
+      case "$nor":
+        return !(condition as Array<Record<string, unknown>>).some(f => matchesFilter(label, f));
+      default:
+        if (key.startsWith("$")) {
+          throw new Error(`Unsupported query operator: ${key}`);
+        }
+        return matchesCondition((label as unknown as Record<string, unknown>)[key], condition);
+    }
+  });
+}
+
+/**
+ * Checks whether a field value matches a filter condition, which is either a
+ * value to compare against, a regular expression, or an object of operators.
+ */
+function matchesCondition(value: unknown, condition: unknown): boolean {
+  if (condition instanceof RegExp) {
+    return typeof value === "string" && condition.test(value);
+  }
+  if (!isOperatorObject(condition)) {
+    return valuesEqual(value, condition);
+  }
+  return Object.entries(condition).every(([operator, operand]) => {
+    switch (operator) {
+      case "$eq":
+        return valuesEqual(value, operand);
+      case "$ne":
+        return !valuesEqual(value, operand);
+      case "$in":
+        return (operand as unknown[]).some(o => matchesCondition(value, o));
+      case "$nin":
+        return !(operand as unknown[]).some(o => matchesCondition(value, o));
+      case "$gt":
+        return isComparable(value, operand) && compareValues(value, operand) > 0;
+      case "$gte":
+        return isComparable(value, operand) && compareValues(value, operand) >= 0;
+      case "$lt":
+        return isComparable(value, operand) && compareValues(value, operand) < 0;
+      case "$lte":
+        return isComparable(value, operand) && compareValues(value, operand) <= 0;
+      case "$exists":
+        return (value !== undefined) === Boolean(operand);
+      case "$regex": {
+        const options = (condition as { $options?: string }).$options;
+        const regex = operand instanceof RegExp ? operand : new RegExp(String(operand), options);
+        return typeof value === "string" && regex.test(value);
+      }
+      case "$options":
+        return true;
+      case "$type":
+        if (operand !== "null") {
+          throw new Error(`Unsupported $type: ${String(operand)}`);
+        }
+        return value === null;
+      default:
+        throw new Error(`Unsupported query operator: ${operator}`);
+    }
+  });
+}
+
+function isOperatorObject(condition: unknown): condition is Record<string, unknown> {
+  return typeof condition === "object" && condition !== null && !(condition instanceof ObjectId)
+    && Object.keys(condition).some(key => key.startsWith("$"));
+}
+
+function valuesEqual(value: unknown, expected: unknown): boolean {
+  if (expected === null) {
+    return value === null || value === undefined;
+  }
+  if (value instanceof ObjectId && expected instanceof ObjectId) {
+    return value.equals(expected);
+  }
+  return value === expected;
+}
+
+function isComparable(a: unknown, b: unknown): boolean {
+  if (a instanceof ObjectId && b instanceof ObjectId) {
+    return true;
+  }
+  return (typeof a === "number" || typeof a === "string") && typeof a === typeof b;
+}
+
+/**
+ * Orders field values like MongoDB does for the types labels hold, with missing
+ * and null values first.
+ */
+function compareValues(a: unknown, b: unknown): number {
+  if (a === undefined || a === null) {
+    return b === undefined || b === null ? 0 : -1;
+  }
+  if (b === undefined || b === null) {
+    return 1;
+  }
+  const [x, y] = a instanceof ObjectId && b instanceof ObjectId ? [a.toHexString(), b.toHexString()] : [a, b];
+  if (typeof x === "boolean" && typeof y === "boolean") {
+    return Number(x) - Number(y);
+  }
+  return (x as number | string) < (y as number | string) ? -1 : (x as number | string) > (y as number | string) ? 1 : 0;
+}
@@ -0,0 +1,492 @@
+import { type AnyBulkWriteOperation, Binary, type Collection, type Document, MongoServerError, ObjectId } from "mongodb";
+import { fromStoredLabel, type MongoDBClient, type StoredLabel } from "./mongodb.js";
+import type { UnsignedLabel } from "./util/types.js";
+
+const MIGRATIONS_COLLECTION_NAME = "migrations";
+const LOCK_ID = "lock";
+const DEFAULT_LOCK_TIMEOUT = 10 * 60_000;
+const MIGRATION_BATCH_SIZE = 500;
+const DUPLICATE_KEY_ERROR = 11000;
+/**
+ * The version of the migration storing timestamps as BSON dates, which label queries
+ * rely on to compare and sort timestamps.
+ */
+export const LABEL_DATES_MIGRATION_VERSION = 3;
+/** The ISO form timestamps are stored in, as produced by `Date.prototype.toISOString`. */
+const ISO_TIMESTAMP_REGEX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/;
+
+/**
+ * A versioned change to how labels are stored.
+ *
+ * @param version The migration's position. Migrations are applied in ascending order
+ * and reverted in descending order.
+ * @param name A short description, recorded with the applied migration.
+ * @param changesSignedFields Whether the migration changes fields labels are signed over.
+ * Such migrations must re-sign the labels they change, and are only run with a signer.
+ * @param up Applies the change, re-signing changed labels with the signer if given.
+ * @param down Reverts the change. Migrations without one cannot be reverted.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  changesSignedFields?: boolean;
+  up(client: MongoDBClient, sign?: MigrationSigner): Promise<void>;
+  down?(client: MongoDBClient, sign?: MigrationSigner): Promise<void>;
+}
+
+/**
+ * Signs a label rewritten by a migration, returning its new signature.
+ */
+export type MigrationSigner = (label: UnsignedLabel) => Promise<Uint8Array>;
+
+/**
+ * A migration and when it was applied, if it has been.
+ */
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt?: string;
+}
+
+/**
+ * Result of a migration run.
+ *
+ * @param applied The versions applied, in order.
+ * @param reverted The versions reverted, in order.
+ */
+export interface MigrationResult {
+  applied: number[];
+  reverted: number[];
+}
+
+/**
+ * Options for running migrations.
+ *
+ * @param migrations The migrations to run. Defaults to {@link LABEL_MIGRATIONS}.
+ * @param lockTimeout How long a runner holds the lock before another runner may take
+ * it over, in milliseconds, in case the runner holding it died. Defaults to 10 minutes.
+ * @param sign Signs the labels migrations rewrite. Migrations that change signed fields
+ * are refused without it.
+ */
+export interface MigrationRunnerOptions {
+  migrations?: Migration[];
+  lockTimeout?: number;
+  sign?: MigrationSigner;
+}
+
+/**
+ * An applied migration, or the lock held by a runner, in the `migrations` collection.
+ */
+type MigrationDocument =
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  | { _id: number; name: string; appliedAt: string }
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  | { _id: typeof LOCK_ID; owner: string; acquiredAt: string; expiresAt: string };
+
+/**
+ * Migrations normalizing labels stored by earlier versions to the current storage format.
+ *
+ * 1. Timestamps stored as strings with offsets or without milliseconds (before 0.4.7)
+ *    are rewritten as ISO strings in UTC, and null expirations are removed. Labels
+ *    whose timestamps change are re-signed, so this migration needs a signer.
+ * 2. Signatures stored as base64 strings, `{ $bytes }` objects or serialized byte
+ *    arrays are rewritten as BSON binary data.
+ * 3. Timestamps stored as ISO strings are rewritten as BSON dates, and back when reverted.
+ *    Dates convert back to the same strings, so signatures still match.
+ */
+export const LABEL_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "normalize-label-dates",
+    changesSignedFields: true,
+    up: normalizeLabelDates,
+  },
+  {
+    version: 2,
+    name: "normalize-label-signatures",
+    up: normalizeLabelSignatures,
+  },
+  {
+    version: LABEL_DATES_MIGRATION_VERSION,
+    name: "store-label-dates-as-dates",
+    up: storeLabelDatesAsDates,
+    down: storeLabelDatesAsStrings,
+  },
+];
+
+/**
+ * Applies and reverts versioned migrations to the labels collection, recording
+ * applied migrations in the `migrations` collection.
+ *
+ * Only one runner migrates a database at a time: a runner takes a lock in the
+ * `migrations` collection before running and fails if another runner holds it.
+ * A lock older than the lock timeout is taken over, so a runner that died while
+ * migrating does not block migrations forever.
+ *
+ * @param client The MongoDB client whose labels are migrated.
+ * @param options The migrations to run, the lock timeout and the label signer.
+ */
+export class MigrationRunner {
+  private readonly _client: MongoDBClient;
+  private readonly _migrations: Migration[];
+  private readonly _lockTimeout: number;
+  private readonly _sign?: MigrationSigner;
+
+  /**
+   * Create a new MigrationRunner instance.
+   * @param client The MongoDB client whose labels are migrated.
+   * @param options The migrations to run, the lock timeout and the label signer.
+   * @throws {Error} If two migrations share a version
+   */
+  constructor(client: MongoDBClient, options: MigrationRunnerOptions = {}) {
+    this._client = client;
+    this._migrations = [...options.migrations ?? LABEL_MIGRATIONS].sort((a, b) => a.version - b.version);
+    this._lockTimeout = options.lockTimeout ?? DEFAULT_LOCK_TIMEOUT;
+    this._sign = options.sign;
+
+    for (const [i, migration] of this._migrations.entries()) {
+      if (!Number.isSafeInteger(migration.version) || migration.version < 1) {
+        throw new Error(`Migration versions must be positive integers, got ${migration.version}`);
+      }
+      if (i > 0 && this._migrations[i - 1].version === migration.version) {
+        throw new Error(`Duplicate migration version ${migration.version}`);
+      }
+    }
+  }
+
+  private get _collection(): Collection<MigrationDocument> {
+    return this._client.collection<MigrationDocument>(MIGRATIONS_COLLECTION_NAME);
+  }
+
+  /**
+   * The latest known migration version.
+   */
+  get latestVersion(): number {
+    return this._migrations.at(-1)?.version ?? 0;
+  }
+
+  /**
+   * List the known migrations, with when each was applied.
+   *
+   * @returns A promise that resolves to the migrations in version order.
+   * @throws {Error} If the applied migrations cannot be read
+   */
+  async status(): Promise<MigrationStatus[]> {
+    try {
+      const applied = await this._applied();
+      return this._migrations.map(({ version, name }) => {
+        const appliedAt = applied.get(version);
+        return appliedAt ? { version, name, appliedAt } : { version, name };
+      });
+    } catch (error) {
+      throw new Error(
+        `Failed to read migration status: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Apply or revert migrations so that the database is at a version: every known
+   * migration up to it is applied in ascending order, and every applied migration
+   * after it is reverted in descending order.
+   *
+   * Each migration is recorded as soon as it completes, so a failed run can be
+   * resumed by running again.
+   *
+   * @param to The version to migrate to. Defaults to the latest version; 0 reverts every migration.
+   * @returns A promise that resolves to the versions applied and reverted.
+   * @throws {Error} If the version is unknown, another runner holds the lock, a migration
+   * to revert has no `down` step, a migration to run changes signed fields without a
+   * signer, or a migration fails
+   */
+  async migrate(to: number = this.latestVersion): Promise<MigrationResult> {
+    if (to !== 0 && !this._migrations.some(({ version }) => version === to)) {
+      throw new Error(`Unknown migration version ${to}`);
+    }
+
+    const owner = await this._lock();
+    const result: MigrationResult = { applied: [], reverted: [] };
+    try {
+      const applied = await this._applied();
+      const toRevert = [...applied.keys()].filter(version => version > to).sort((a, b) => b - a);
+      for (const version of toRevert) {
+        const migration = this._migrations.find(m => m.version === version);
+        if (!migration?.down) {
+          throw new Error(
+            migration
+              ? `Migration ${version} (${migration.name}) cannot be reverted`
+              : `Migration ${version} is not known and cannot be reverted`,
+          );
+        }
+      }
+      const toApply = this._migrations.filter(({ version }) => version <= to && !applied.has(version));
+      if (!this._sign) {
+        const unsigned = [...toApply, ...this._migrations.filter(({ version }) => toRevert.includes(version))]
+          .find(({ changesSignedFields }) => changesSignedFields);
+        if (unsigned) {
+          throw new Error(
+            `Migration ${unsigned.version} (${unsigned.name}) changes signed label fields and needs a signer`,
+          );
+        }
+      }
+
+      for (const version of toRevert) {
+        const migration = this._migrations.find(m => m.version === version) as Required<Migration>;
+        await this._run(migration, "down");
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        await this._collection.deleteOne({ _id: version });
+        result.reverted.push(version);
+      }
+
+      for (const migration of toApply) {
+        await this._run(migration, "up");
+        await this._collection.insertOne({
+          // eslint-disable-next-line @typescript-eslint/naming-convention
+          _id: migration.version,
+          name: migration.name,
+          appliedAt: new Date().toISOString(),
+        });
+        result.applied.push(migration.version);
+      }
+      return result;
+    } finally {
+      await this._unlock(owner);
+    }
+  }
+
+  /**
+   * Record every known migration as applied without running it, for databases whose
+   * labels are all stored in the current format, such as new ones.
+   *
+   * @throws {Error} If the migrations cannot be recorded
+   */
+  async baseline(): Promise<void> {
+    try {
+      const appliedAt = new Date().toISOString();
+      for (const { version, name } of this._migrations) {
+        await this._collection.updateOne(
+          // eslint-disable-next-line @typescript-eslint/naming-convention
+          { _id: version },
+          { $setOnInsert: { name, appliedAt } },
+          { upsert: true },
+        );
+      }
+    } catch (error) {
+      throw new Error(
+        `Failed to record migration baseline: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Runs one step of a migration, naming the migration if it fails.
+   */
+  private async _run(migration: Migration, step: "up" | "down"): Promise<void> {
+    try {
+      await migration[step]?.(this._client, this._sign);
+    } catch (error) {
+      throw new Error(
+        `Failed to ${step === "up" ? "apply" : "revert"} migration ${migration.version} (${migration.name}): ${
+          error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Loads when each applied migration was applied, by version.
+   */
+  private async _applied(): Promise<Map<number, string>> {
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    const records = await this._collection.find({ _id: { $ne: LOCK_ID } }).toArray();
+    return new Map(records.map(record => [record._id as number, (record as { appliedAt: string }).appliedAt]));
+  }
+
+  /**
+   * Takes the lock, unless another runner holds one that has not timed out.
+   *
+   * @returns The owner ID the lock was taken with.
+   */
+  private async _lock(): Promise<string> {
+    const owner = new ObjectId().toHexString();
+    const now = new Date();
+    try {
+      await this._collection.updateOne(
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        { _id: LOCK_ID, expiresAt: { $lte: now.toISOString() } },
+        {
+          $set: {
+            owner,
+            acquiredAt: now.toISOString(),
+            expiresAt: new Date(now.getTime() + this._lockTimeout).toISOString(),
+          },
+        },
+        { upsert: true },
+      );
+    } catch (error) {
+      if (error instanceof MongoServerError && error.code === DUPLICATE_KEY_ERROR) {
+        throw new Error("Migrations are already running in another process");
+      }
+      throw new Error(
+        `Failed to lock migrations: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+    return owner;
+  }
+
+  /**
+   * Releases the lock, if it is still held by this run.
+   */
+  private async _unlock(owner: string): Promise<void> {
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    await this._collection.deleteOne({ _id: LOCK_ID, owner }).catch((error: unknown) => {
+      console.error("Failed to release migration lock:", error);
+    });
+  }
+}
+
+/**
+ * Rewrites the labels collection in batches, updating every label matching a
+ * filter with the update returned for it, if any.
+ */
+async function rewriteLabels(
+  client: MongoDBClient,
+  filter: Document,
+  update: (label: Document) => Document | undefined | Promise<Document | undefined>,
+): Promise<void> {
+  const labels = client.collection<Document>(client.collectionName);
+  let batch: AnyBulkWriteOperation<Document>[] = [];
+  for await (const label of labels.find(filter)) {
+    const change = await update(label);
+    if (change) {
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      batch.push({ updateOne: { filter: { _id: label._id }, update: change } });
+    }
+    if (batch.length >= MIGRATION_BATCH_SIZE) {
+      await labels.bulkWrite(batch, { ordered: false });
+      batch = [];
+    }
+  }
+  if (batch.length) {
+    await labels.bulkWrite(batch, { ordered: false });
+  }
+}
+
+/**
+ * Converts a stored timestamp to the ISO form, or undefined if it isn't a valid date.
+ */
+function toIsoTimestamp(value: string): string | undefined {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+async function normalizeLabelDates(client: MongoDBClient, sign?: MigrationSigner): Promise<void> {
+  if (!sign) {
+    throw new Error("Normalizing label dates re-signs labels and needs a signer");
+  }
+  const notIso = { $type: "string", $not: ISO_TIMESTAMP_REGEX };
+  await rewriteLabels(
+    client,
+    { $or: [{ cts: notIso }, { exp: notIso }, { exp: { $type: "null" } }] },
+    async (label) => {
+      const $set: Document = {};
+      const $unset: Document = {};
+      for (const field of ["cts", "exp"]) {
+        if (typeof label[field] !== "string") {
+          continue;
+        }
+        const timestamp = toIsoTimestamp(label[field]);
+        if (timestamp === undefined) {
+          console.warn(`Label ${String(label._id)} has an invalid ${field} and was not migrated`);
+        } else if (timestamp !== label[field]) {
+          $set[field] = timestamp;
+        }
+      }
+      if (label.exp === null) {
+        $unset.exp = "";
+      }
+      // Null expirations aren't signed over, so only changed timestamps need a new signature
+      if (Object.keys($set).length) {
+        $set.sig = new Binary(await sign(fromStoredLabel({ ...label, ...$set } as StoredLabel)));
+      }
+      const update = {
+        ...Object.keys($set).length ? { $set } : {},
+        ...Object.keys($unset).length ? { $unset } : {},
+      };
+      return Object.keys(update).length ? update : undefined;
+    },
+  );
+}
+
+/**
+ * Converts a stored signature to its bytes, or undefined if its form isn't recognized.
+ */
+function toSignatureBytes(sig: unknown): Uint8Array | undefined {
+  if (typeof sig === "string") {
+    return new Uint8Array(Buffer.from(sig, "base64"));
+  }
+  if (Array.isArray(sig)) {
+    return sig.every(byte => Number.isInteger(byte)) ? Uint8Array.from(sig as number[]) : undefined;
+  }
+  if (typeof sig === "object" && sig !== null) {
+    const { $bytes } = sig as { $bytes?: unknown };
+    if (typeof $bytes === "string") {
+      return new Uint8Array(Buffer.from($bytes, "base64"));
+    }
+    // Uint8Arrays serialized to JSON, like { "0": 48, "1": 69 }
+    const entries = Object.entries(sig);
+    if (entries.length && entries.every(([key, byte], i) => key === String(i) && Number.isInteger(byte))) {
+      return Uint8Array.from(entries.map(([, byte]) => byte as number));
+    }
+  }
+  return undefined;
+}
+
+async function normalizeLabelSignatures(client: MongoDBClient): Promise<void> {
+  await rewriteLabels(
+    client,
+    { sig: { $exists: true, $not: { $type: "binData" } } },
+    (label) => {
+      const bytes = toSignatureBytes(label.sig);
+      if (!bytes) {
+        console.warn(`Label ${String(label._id)} has a signature in an unknown form and was not migrated`);
+        return undefined;
+      }
+      return { $set: { sig: new Binary(bytes) } };
+    },
+  );
+}
+
+/**
+ * Rewrites timestamps stored as ISO strings as BSON dates.
+ *
+ * Only strings in the ISO form are converted, since they are the only ones a date
+ * converts back to unchanged, so signatures still match. Other strings are left for
+ * the migration normalizing them. Converting takes no lock and can run concurrently,
+ * since converted timestamps no longer match.
+ *
+ * @param client The MongoDB client whose labels are converted.
+ */
+export async function storeLabelDatesAsDates(client: MongoDBClient): Promise<void> {
+  const labels = client.collection<Document>(client.collectionName);
+  for (const field of ["cts", "exp"]) {
+    // Timestamps that cannot be parsed, like February 30th, are left as they are
+    const date = { $dateFromString: { dateString: `$${field}`, onError: `$${field}` } };
+    await labels.updateMany(
+      { [field]: { $type: "string", $regex: ISO_TIMESTAMP_REGEX } },
+      [{ $set: { [field]: date } }],
+    );
+  }
+}
+
+async function storeLabelDatesAsStrings(client: MongoDBClient): Promise<void> {
+  const labels = client.collection<Document>(client.collectionName);
+  for (const field of ["cts", "exp"]) {
+    const timestamp = { $dateToString: { date: `$${field}`, format: "%Y-%m-%dT%H:%M:%S.%LZ" } };
+    // Strings don't match the schema's dates, so validation is bypassed
+    await labels.updateMany(
+      { [field]: { $type: "date" } },
+      [{ $set: { [field]: timestamp } }],
+      { bypassDocumentValidation: true },
+    );
+  }
+}
@@ -1,5 +1,105 @@
-import { Collection, Db, Filter, FindOptions, MongoClient, ObjectId } from "mongodb";
+import {
+  Collection,
+  Db,
+  Document,
+  Filter,
+  FindOptions,
+  MongoBulkWriteError,
+  MongoClient,
+  MongoClientOptions,
+  MongoServerError,
+  ObjectId,
+} from "mongodb";
+import { DuplicateIdempotencyKeyError } from "./errors";
+import type { ActiveLabelOptions, LabelQuery, LabelStore, SaveLabelsOptions, SaveLabelsResult } from "./store.js";
 import type { SavedLabel, UnsignedLabel } from "./util/types.js";
+import { hasSchemaDrift, LabelSchemaManager, type SchemaDriftReport, type SchemaValidationMode } from "./schema.js";
+
+// The database the driver uses when the connection string names none, kept so existing deployments find their labels
+const DEFAULT_DATABASE_NAME = "test";
+const DEFAULT_COLLECTION_NAME = "labels";
+const COUNTERS_COLLECTION_NAME = "counters";
+const DUPLICATE_KEY_ERROR = 11000;
+/** The operators whose operand is compared against a timestamp in `cts` and `exp` conditions. */
+const DATE_COMPARISON_OPERATORS = new Set(["$eq", "$ne", "$gt", "$gte", "$lt", "$lte"]);
+
+/**
+ * A sequence counter, keyed by the name of the collection it numbers.
+ */
+interface Counter {
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  _id: string;
+  seq: number;
+}
+
+/**
+ * A block of sequence numbers reserved by a save still in progress.
+ */
+interface SequenceReservation {
+  /** The first sequence number of the block, once the counter has returned it. */
+  first?: number;
+  /** The reservations made before this one was numbered, which may have lower numbers. */
+  preceding: SequenceReservation[];
+  /** Resolves once the block is numbered, or failed to be. */
+  numbered: Promise<void>;
+  /** Resolves once the save has finished, whether or not its labels were stored. */
+  settled: Promise<void>;
+  settle: () => void;
+}
+
+type NumberedReservation = SequenceReservation & { first: number };
+
+/**
+ * TLS settings for the MongoDB connection.
+ *
+ * @param caFile Path to the certificate authority file used to validate the server.
+ * @param certificateKeyFile Path to the client certificate and private key file.
+ * @param certificateKeyFilePassword Password for the client private key.
+ * @param allowInvalidCertificates Whether to accept invalid server certificates.
+ * @param allowInvalidHostnames Whether to accept server certificates for other hostnames.
+ */
+export interface MongoDBTlsOptions {
+  caFile?: string;
+  certificateKeyFile?: string;
+  certificateKeyFilePassword?: string;
+  allowInvalidCertificates?: boolean;
+  allowInvalidHostnames?: boolean;
+}
+
+/**
+ * Options for creating a MongoDBClient.
+ *
+ * @param uri The URI to connect to the MongoDB instance.
+ * @param databaseName The name of the database to use. Defaults to the database in the
+ * connection string, or the driver's default 'test' if it names none.
+ * @param collectionName The name of the collection to use. Defaults to 'labels'.
+ * @param appName The application name reported to the server, shown in logs and profiling.
+ * @param tls Whether to connect over TLS, or the TLS settings to connect with.
+ * @param clientOptions Any other options for the underlying MongoClient.
+ * @param schemaValidation How the labels collection's `$jsonSchema` validator treats invalid
+ * labels: 'error', 'warn', or 'off' to leave the validator alone. Defaults to 'error'.
+ * @param replaceSchemaValidator Whether a validator the labeler did not apply to the labels
+ * collection is replaced by its own. Such a validator is only reported by default.
+ * @param expiredLabelTtl How long after their `exp` labels are deleted by a TTL index, in
+ * milliseconds, rounded up to whole seconds. Labels are kept until negated or deleted by default.
+ */
+export interface MongoDBClientOptions {
+  uri: string;
+  databaseName?: string;
+  collectionName?: string;
+  appName?: string;
+  tls?: boolean | MongoDBTlsOptions;
+  clientOptions?: MongoClientOptions;
+  schemaValidation?: SchemaValidationMode;
+  replaceSchemaValidator?: boolean;
+  expiredLabelTtl?: number;
+}
+
+/**
+ * A label as stored in MongoDB, with its timestamps as BSON dates. Labels stored by
+ * earlier versions may still hold ISO strings until they are migrated.
+ */
+export type StoredLabel = Omit<SavedLabel, "cts" | "exp"> & { cts: Date; exp?: Date };
 
 /**
  * Client for interacting with the MongoDB database where labels are stored.
@@ -7,21 +107,38 @@ import type { SavedLabel, UnsignedLabel } from "./util/types.js";
  * This class handles connecting to the database, creating necessary indexes,
  * and performing basic CRUD operations on labels.
  *
- * @param uri The URI to connect to the MongoDB instance.
- * @param databaseName The name of the database to use. Defaults to 'labeler'.
- * @param collectionName The name of the collection to use. Defaults to 'labels'.
+ * @param uri The URI to connect to the MongoDB instance, or the full client options.
  */
-export class MongoDBClient {
+export class MongoDBClient implements LabelStore {
   private _db?: Db;
   private _client?: MongoClient;
-  private _labels?: Collection<SavedLabel>;
+  private _labels?: Collection<StoredLabel>;
+  private _counters?: Collection<Counter>;
+  private _schema?: LabelSchemaManager;
   private readonly _url: string;
+  private readonly _clientOptions: MongoClientOptions;
+  private readonly _schemaValidation: SchemaValidationMode;
+  private readonly _replaceSchemaValidator: boolean;
+  private readonly _expiredLabelTtl?: number;
+  private readonly _reservations = new Set<SequenceReservation>();
+
+  private readonly _databaseName: string;
+  public get databaseName(): string {
+    return this._databaseName;
+  }
+
+  private readonly _collectionName: string;
+  public get collectionName(): string {
+    return this._collectionName;
+  }
 
   /**
    * Create a new MongoDBClient instance.
-   * @param uri The URI to connect to the MongoDB instance.
+   * @param uriOrOptions The URI to connect to the MongoDB instance, or the full client options.
    */
-  constructor(uri: string) {
+  constructor(uriOrOptions: string | MongoDBClientOptions) {
+    const options = typeof uriOrOptions === "string" ? { uri: uriOrOptions } : uriOrOptions;
+    const uri = options.uri;
     if (!uri) {
       throw new Error("Missing required parameter: mongoUri");
     }
@@ -29,39 +146,83 @@ export class MongoDBClient {
       throw new Error("Invalid scheme, expected connection string to start with \"mongodb://\" or \"mongodb+srv://\"");
     }
     this._url = uri;
+    this._databaseName = options.databaseName ?? getConnectionStringDatabase(uri) ?? DEFAULT_DATABASE_NAME;
+    this._collectionName = options.collectionName ?? DEFAULT_COLLECTION_NAME;
+    this._schemaValidation = options.schemaValidation ?? "error";
+    this._replaceSchemaValidator = options.replaceSchemaValidator ?? false;
+    if (options.expiredLabelTtl !== undefined && !(options.expiredLabelTtl >= 0)) {
+      throw new Error("expiredLabelTtl must be a non-negative number of milliseconds");
+    }
+    this._expiredLabelTtl = options.expiredLabelTtl;
+    this._clientOptions = {
+      ...options.clientOptions,
+      ...(options.appName ? { appName: options.appName } : {}),
+      ...getTlsClientOptions(options.tls),
+    };
+  }
+
+  /**
+   * Get another collection in the labeler's database, for data stored alongside labels.
+   *
+   * @param name - The name of the collection.
+   * @returns The collection.
+   * @throws {Error} If the client is not connected
+   */
+  collection<T extends Document>(name: string): Collection<T> {
+    if (!this._db) {
+      throw new Error("Database is not initialized");
+    }
+    return this._db.collection<T>(name);
   }
 
   /**
    * Connect to the MongoDB instance and initialize the collection.
-   * If the collection doesn't exist, it will be created with the necessary indexes.
+   * If the collection doesn't exist, it will be created.
+   * Labels stored before sequence numbers were introduced are assigned one, in ID order.
+   * The indexes and `$jsonSchema` validator the labeler expects are then ensured, along
+   * with the TTL index if `expiredLabelTtl` is set, and any remaining drift from them is
+   * logged as a warning.
    *
    * This method should be called before any other method in this class.
    */
   async connect(): Promise<void> {
     try {
-      this._client = await MongoClient.connect(this._url);
-      this._db = this._client.db();
-      this._labels = this._db.collection("labels");
+      this._client = await MongoClient.connect(this._url, this._clientOptions);
+      this._db = this._client.db(this._databaseName);
+      this._labels = this._db.collection(this._collectionName);
 
       // Verificar si la colección existe
-      const collections = await this._db.listCollections({ name: "labels" }).toArray();
+      const collections = await this._db.listCollections({ name: this._collectionName }).toArray();
       const collectionExists = collections.length > 0;
 
       if (!collectionExists) {
-        console.log(`Creating collection labels`);
+        console.log(`Creating collection ${this._collectionName}`);
         // Crear la colección explícitamente
-        await this._db.createCollection("labels");
+        await this._db.createCollection(this._collectionName);
 
         // Obtener referencia a la colección recién creada
-        this._labels = this._db.collection("labels");
-
-        console.log(`Creating indexes for new collection labels`);
-        // Crear los índices necesarios
-        await this._labels.createIndex({ uri: 1 });
-        await this._labels.createIndex({ src: 1 });
+        this._labels = this._db.collection(this._collectionName);
       } else {
         // Si la colección ya existe, solo obtener la referencia
-        this._labels = this._db.collection("labels");
+        this._labels = this._db.collection(this._collectionName);
+      }
+
+      this._counters = this._db.collection(COUNTERS_COLLECTION_NAME);
+      await this._assignMissingSequenceNumbers();
+
+      this._schema = new LabelSchemaManager(
+        this._db,
+        this._collectionName,
+        this._schemaValidation,
+        this._expiredLabelTtl,
+        this._replaceSchemaValidator,
+      );
+      const drift = await this._schema.ensure();
+      if (hasSchemaDrift(drift)) {
+        console.warn(`Collection ${this._collectionName} differs from the expected schema:`, drift);
+      }
+      if (drift.replacedValidator) {
+        console.warn(`Replaced the validator of collection ${this._collectionName}:`, drift.replacedValidator);
       }
     } catch (error) {
       throw new Error(
@@ -70,6 +231,20 @@ export class MongoDBClient {
     }
   }
 
+  /**
+   * Compare the labels collection with the indexes and `$jsonSchema` validator the
+   * labeler expects, without changing it, counting the labels that don't match the schema.
+   *
+   * @returns A promise that resolves to the drift report.
+   * @throws {Error} If the client is not connected or the collection cannot be inspected
+   */
+  async checkSchema(): Promise<SchemaDriftReport> {
+    if (!this._schema) {
+      throw new Error("Failed to check label schema: Collection is not initialized");
+    }
+    return this._schema.check();
+  }
+
   /**
    * Close the connection to MongoDB.
    */
@@ -91,39 +266,130 @@ export class MongoDBClient {
   /**
    * Save a label to the MongoDB collection.
    *
+   * Sequence numbers are reserved before the label is inserted, so concurrent saves can
+   * be stored out of order. This resolves once every lower sequence number reserved by
+   * this client is stored or abandoned, so that callers publishing labels as they are
+   * saved do so in sequence order.
+   *
    * @param label - The label to save, including a signature as an ArrayBuffer.
    * @returns A promise that resolves to the saved label.
+   * @throws {DuplicateIdempotencyKeyError} If a stored label has the same idempotency key
    */
-  async saveLabel(label: UnsignedLabel & { sig: ArrayBuffer }): Promise<SavedLabel> {
+  async saveLabel(label: UnsignedLabel & { sig: ArrayBuffer; idempotencyKey?: string }): Promise<SavedLabel> {
     if (!this._labels) {
       throw new Error("Failed to save label: Collection is not initialized");
     }
 
+    let reservation: NumberedReservation | undefined;
     try {
-      const objectId = new ObjectId();
-      // Convert ISO string dates to Date objects for MongoDB
-      const labelWithDates = {
-        ...label,
-        // cts siempre tendrá un valor porque se genera en createLabel si no está presente
-        cts: new Date(String(label.cts)).toISOString(),
-        exp: label.exp ? new Date(label.exp).toISOString() : undefined
-      };
-      // eslint-disable-next-line @typescript-eslint/naming-convention
-      const savedLabel: SavedLabel = { ...labelWithDates, _id: objectId };
+      reservation = await this._reserve(1);
+      const savedLabel = toSavedLabel(label, reservation.first);
       console.log('Saving label:', { val: savedLabel.val, exp: savedLabel.exp });
-      const result = await this._labels.insertOne(savedLabel);
+      const result = await this._labels.insertOne(toStoredLabel(savedLabel));
 
       if (!result.acknowledged) {
         throw new Error("Operation not acknowledged");
       }
 
+      await this._settle(reservation);
       return savedLabel;
     } catch (error) {
+      if (reservation) {
+        await this._settle(reservation);
+      }
+      if (
+        label.idempotencyKey !== undefined
+        && error instanceof MongoServerError
+        && isDuplicateIdempotencyKey(error.code, error.message)
+      ) {
+        throw new DuplicateIdempotencyKeyError(label.idempotencyKey);
+      }
       const message = error instanceof Error ? error.message : String(error);
       throw new Error(`Failed to save label: ${message}`);
     }
   }
 
+  /**
+   * Save a batch of labels to the MongoDB collection with a single `insertMany`,
+   * reserving a block of sequence numbers for the whole batch.
+   *
+   * In an ordered batch, the labels after the first one that fails are not saved
+   * and are reported as errors too. Their sequence numbers are left unused.
+   *
+   * Like {@link saveLabel}, this resolves once every lower sequence number reserved by
+   * this client is stored or abandoned.
+   *
+   * @param labels - The labels to save, each including a signature as an ArrayBuffer.
+   * @param options - Whether the batch is ordered. Defaults to true.
+   * @returns A promise that resolves to the saved labels and the errors, by index.
+   */
+  async saveLabels(
+    labels: Array<UnsignedLabel & { sig: ArrayBuffer; idempotencyKey?: string }>,
+    options: SaveLabelsOptions = {},
+  ): Promise<SaveLabelsResult> {
+    if (!this._labels) {
+      throw new Error("Failed to save labels: Collection is not initialized");
+    }
+    if (labels.length === 0) {
+      return { saved: [], errors: [] };
+    }
+
+    const ordered = options.ordered ?? true;
+    let reservation: NumberedReservation;
+    let savedLabels: SavedLabel[];
+    try {
+      reservation = await this._reserve(labels.length);
+      const firstSeq = reservation.first;
+      savedLabels = labels.map((label, index) => toSavedLabel(label, firstSeq + index));
+    } catch (error) {
+      throw new Error(
+        `Failed to save labels: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    try {
+      await this._labels.insertMany(savedLabels.map(toStoredLabel), { ordered });
+      await this._settle(reservation);
+      return { saved: savedLabels.map((label, index) => ({ index, label })), errors: [] };
+    } catch (error) {
+      await this._settle(reservation);
+      if (!(error instanceof MongoBulkWriteError)) {
+        throw new Error(
+          `Failed to save labels: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+
+      const failures = new Map<number, Error>();
+      for (const writeError of [error.writeErrors].flat()) {
+        const key = labels[writeError.index].idempotencyKey;
+        failures.set(
+          writeError.index,
+          key !== undefined && isDuplicateIdempotencyKey(writeError.code, writeError.errmsg)
+            ? new DuplicateIdempotencyKeyError(key)
+            : new Error(`Failed to save label: ${writeError.errmsg ?? "Write error"}`),
+        );
+      }
+      // An ordered insert stops at its first failure, leaving the rest of the batch unsaved
+      const firstFailure = Math.min(...failures.keys());
+
+      const result: SaveLabelsResult = { saved: [], errors: [] };
+      savedLabels.forEach((label, index) => {
+        const failure = failures.get(index);
+        if (failure) {
+          result.errors.push({ index, error: failure });
+        } else if (ordered && index > firstFailure) {
+          result.errors.push({
+            index,
+            error: new Error("Failed to save label: Not saved because an earlier label in the batch failed"),
+          });
+        } else {
+          result.saved.push({ index, label });
+        }
+      });
+      return result;
+    }
+  }
+
   /**
    * Find labels in the MongoDB collection matching the given query.
    *
@@ -131,37 +397,15 @@ export class MongoDBClient {
    * @param options - Optional settings for the query, such as sort and limit.
    * @returns A promise that resolves to an array of labels matching the query.
    */
-  async findLabels(query: Filter<SavedLabel> & { allowExpired?: boolean } = {}, options: FindOptions<SavedLabel> = {}): Promise<SavedLabel[]> {
+  async findLabels(query: LabelQuery = {}, options: FindOptions<SavedLabel> = {}): Promise<SavedLabel[]> {
     if (!this._labels) {
       return [];
     }
 
     try {
-      const { allowExpired, ...restQuery } = query;
-      let finalQuery = restQuery;
-
-      // Only filter expired labels if allowExpired is false
-      if (!allowExpired) {
-        const now = new Date();
-        console.log('Current time:', now.toISOString());
-        console.log('Query before expiration filter:', JSON.stringify(restQuery));
-        finalQuery = {
-          $and: [
-            restQuery,
-            {
-              $or: [
-                { exp: { $exists: false } },
-                { exp: { $gt: new Date(now.toISOString()).toISOString() } }
-              ]
-            }
-          ]
-        };
-        console.log('Final query:', JSON.stringify(finalQuery));
-      }
-
-      const results = await this._labels.find(finalQuery, options).toArray();
-      console.log('Found labels:', results.map(l => ({ val: l.val, exp: l.exp })));
-      return results;
+      const finalQuery = this._withCommittedFilter(withExpiryFilter(query));
+      return (await this._labels.find(finalQuery, options as FindOptions<StoredLabel>).toArray())
+        .map(fromStoredLabel);
     } catch (error) {
       throw new Error(
         `Failed to find labels: ${error instanceof Error ? error.message : String(error)}`,
@@ -169,6 +413,57 @@ export class MongoDBClient {
     }
   }
 
+  /**
+   * Count the labels in the MongoDB collection matching the given query.
+   *
+   * @param query - The query object to filter labels.
+   * @returns A promise that resolves to the number of matching labels.
+   */
+  async countLabels(query: LabelQuery = {}): Promise<number> {
+    if (!this._labels) {
+      return 0;
+    }
+
+    try {
+      return await this._labels.countDocuments(withExpiryFilter(query));
+    } catch (error) {
+      throw new Error(
+        `Failed to count labels: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Resolve the labels that currently apply to a subject, using an aggregation
+   * that keeps the latest label for each source and value.
+   *
+   * @param uri - The subject URI.
+   * @param options - Options to narrow down the labels considered.
+   * @returns A promise that resolves to the effective labels, in sequence order.
+   */
+  async getActiveLabels(uri: string, options: ActiveLabelOptions = {}): Promise<SavedLabel[]> {
+    if (!this._labels) {
+      return [];
+    }
+
+    try {
+      const labels = await this._labels.aggregate<StoredLabel>([
+        { $match: { uri, ...(options.src ? { src: options.src } : {}) } },
+        { $sort: { cts: -1, seq: -1 } },
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        { $group: { _id: { src: "$src", val: "$val" }, label: { $first: "$$ROOT" } } },
+        { $replaceRoot: { newRoot: "$label" } },
+        { $match: withExpiryFilter({ neg: { $ne: true } }) },
+        { $sort: { seq: 1 } },
+      ]).toArray();
+      return labels.map(fromStoredLabel);
+    } catch (error) {
+      throw new Error(
+        `Failed to get active labels: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
   /**
    * Find a single label in the MongoDB collection matching the given query.
    *
@@ -181,7 +476,8 @@ export class MongoDBClient {
     }
 
     try {
-      return await this._labels.findOne(query);
+      const label = await this._labels.findOne(toStoredFilter(query));
+      return label && fromStoredLabel(label);
     } catch (error) {
       throw new Error(
         `Failed to find label: ${error instanceof Error ? error.message : String(error)}`,
@@ -190,16 +486,22 @@ export class MongoDBClient {
   }
 
   /**
-   * Retrieve a limited number of labels from the database that have an ID greater than the specified cursor.
+   * Retrieve a limited number of labels from the database that have a sequence number greater than the specified cursor.
    *
-   * @param cursor - The ID after which labels should be retrieved.
+   * @param cursor - The sequence number after which labels should be retrieved.
    * @param limit - The maximum number of labels to return.
-   * @returns A promise that resolves to an array of labels with IDs greater than the cursor.
+   * @returns A promise that resolves to an array of labels with sequence numbers greater than the cursor.
    */
-  async getLabelsAfterCursor(cursor: ObjectId, limit: number): Promise<SavedLabel[]> {
+  async getLabelsAfterCursor(cursor: number, limit: number): Promise<SavedLabel[]> {
     try {
-      // eslint-disable-next-line @typescript-eslint/naming-convention
-      return this._labels?.find({ _id: { $gt: cursor } }).sort({ _id: 1 }).limit(limit).toArray() ?? [];
+      if (!this._labels) {
+        return [];
+      }
+      const labels = await this._labels.find(this._withCommittedFilter({ seq: { $gt: cursor } }))
+        .sort({ seq: 1 })
+        .limit(limit)
+        .toArray();
+      return labels.map(fromStoredLabel);
     } catch (error) {
       throw new Error(
         `Failed to get labels after cursor: ${error instanceof Error ? error.message : String(error)}`,
@@ -223,7 +525,7 @@ export class MongoDBClient {
       const result = await this._labels.updateOne(
         // eslint-disable-next-line @typescript-eslint/naming-convention
         { _id: id },
-        { $set: label },
+        { $set: toStoredDates(label) },
       );
       return result.modifiedCount > 0;
     } catch (error) {
@@ -232,4 +534,248 @@ export class MongoDBClient {
       );
     }
   }
+
+  /**
+   * Reserve a block of sequence numbers for a save, tracking it until it is settled.
+   */
+  private async _reserve(count: number): Promise<NumberedReservation> {
+    let numbered!: () => void;
+    let settle!: () => void;
+    const reservation: SequenceReservation = {
+      preceding: [],
+      numbered: new Promise((resolve) => (numbered = resolve)),
+      settled: new Promise((resolve) => (settle = resolve)),
+      settle,
+    };
+    this._reservations.add(reservation);
+
+    try {
+      reservation.first = await this._reserveSequenceNumbers(count) - count + 1;
+      // Reservations made from now on are numbered after this one
+      reservation.preceding = [...this._reservations].filter((other) => other !== reservation);
+      numbered();
+      return reservation as NumberedReservation;
+    } catch (error) {
+      numbered();
+      this._reservations.delete(reservation);
+      settle();
+      throw error;
+    }
+  }
+
+  /**
+   * Wait for every save with lower sequence numbers to finish, then mark a reservation
+   * as settled, letting its labels be read.
+   */
+  private async _settle(reservation: NumberedReservation): Promise<void> {
+    for (const other of reservation.preceding) {
+      await other.numbered;
+      if (other.first !== undefined && other.first < reservation.first) {
+        await other.settled;
+      }
+    }
+    this._reservations.delete(reservation);
+    reservation.settle();
+  }
+
+  /**
+   * Leaves out labels numbered after a save still in progress, so that readers
+   * advancing a cursor past them do not skip the labels it is yet to store.
+   */
+  private _withCommittedFilter(filter: Filter<StoredLabel>): Filter<StoredLabel> {
+    const pending = [...this._reservations]
+      .map(({ first }) => first)
+      .filter((first) => first !== undefined);
+    if (!pending.length) {
+      return filter;
+    }
+    return { $and: [filter, { seq: { $lt: Math.min(...pending) } }] };
+  }
+
+  /**
+   * Atomically reserve a block of consecutive sequence numbers for this client's
+   * label collection, returning the last one.
+   */
+  private async _reserveSequenceNumbers(count: number): Promise<number> {
+    if (!this._counters) {
+      throw new Error("Counters collection is not initialized");
+    }
+
+    const counter = await this._counters.findOneAndUpdate(
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      { _id: this._collectionName },
+      { $inc: { seq: count } },
+      { upsert: true, returnDocument: "after" },
+    );
+    if (!counter) {
+      throw new Error("Failed to reserve sequence number");
+    }
+    return counter.seq;
+  }
+
+  /**
+   * Assign sequence numbers, in ID order, to labels stored before they were introduced.
+   */
+  private async _assignMissingSequenceNumbers(): Promise<void> {
+    if (!this._labels) {
+      return;
+    }
+
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    const unnumbered = this._labels.find({ seq: { $exists: false } }, { projection: { _id: 1 } }).sort({ _id: 1 });
+    for await (const label of unnumbered) {
+      const seq = await this._reserveSequenceNumbers(1);
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      await this._labels.updateOne({ _id: label._id, seq: { $exists: false } }, { $set: { seq } });
+    }
+  }
+}
+
+/**
+ * Prepares a label for storage with a new ID and the given sequence number,
+ * normalizing its timestamps to ISO strings in UTC.
+ */
+function toSavedLabel(label: UnsignedLabel & { sig: ArrayBuffer }, seq: number): SavedLabel {
+  return {
+    ...label,
+    // cts siempre tendrá un valor porque se genera en createLabel si no está presente
+    cts: new Date(String(label.cts)).toISOString(),
+    ...(label.exp ? { exp: new Date(label.exp).toISOString() } : {}),
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    _id: new ObjectId(),
+    seq,
+  };
+}
+
+/**
+ * Converts a label's timestamps to the BSON dates they are stored as.
+ */
+function toStoredDates<T extends { cts?: string; exp?: string }>(
+  label: T,
+): Omit<T, "cts" | "exp"> & { cts?: Date; exp?: Date } {
+  const { cts, exp, ...rest } = label;
+  return {
+    ...rest,
+    ...(cts ? { cts: new Date(cts) } : {}),
+    ...(exp ? { exp: new Date(exp) } : {}),
+  };
+}
+
+/**
+ * Converts a saved label to the form it is stored in.
+ */
+function toStoredLabel(label: SavedLabel): StoredLabel {
+  return { ...toStoredDates(label), cts: new Date(String(label.cts)) };
+}
+
+/**
+ * Converts a stored label back to a saved label, with its timestamps as ISO strings.
+ * Timestamps that are still stored as strings are returned as they are, since labels
+ * are signed over them.
+ */
+export function fromStoredLabel(label: StoredLabel | SavedLabel): SavedLabel {
+  const { cts, exp, ...rest } = label;
+  return {
+    ...rest,
+    cts: cts instanceof Date ? cts.toISOString() : cts,
+    ...(exp ? { exp: exp instanceof Date ? exp.toISOString() : exp } : {}),
+  };
+}
+
+/**
+ * Converts the timestamps compared against in a label filter to BSON dates, so that
+ * they are compared chronologically whatever offset they were written with.
+ */
+function toStoredFilter(filter: Filter<SavedLabel>): Filter<StoredLabel> {
+  return Object.fromEntries(Object.entries(filter).map(([key, condition]) => {
+    if (key === "$and" || key === "$or" || key === "$nor") {
+      return [key, (condition as Array<Filter<SavedLabel>>).map(toStoredFilter)];
+    }
+    if (key === "cts" || key === "exp") {
+      return [key, toStoredCondition(condition)];
+    }
+    return [key, condition];
+  })) as Filter<StoredLabel>;
+}
+
+/**
+ * Converts the timestamps in a condition on `cts` or `exp`, which is either a
+ * timestamp or an object of operators, to BSON dates.
+ */
+function toStoredCondition(condition: unknown): unknown {
+  if (typeof condition === "string") {
+    const date = new Date(condition);
+    return Number.isNaN(date.getTime()) ? condition : date;
+  }
+  if (typeof condition !== "object" || condition === null || condition instanceof Date) {
+    return condition;
+  }
+  return Object.fromEntries(Object.entries(condition).map(([operator, operand]) => {
+    if (DATE_COMPARISON_OPERATORS.has(operator)) {
+      return [operator, toStoredCondition(operand)];
+    }
+    if (operator === "$in" || operator === "$nin") {
+      return [operator, (operand as unknown[]).map(toStoredCondition)];
+    }
+    return [operator, operand];
+  }));
+}
+
+/**
+ * Checks whether a write failed because the label's idempotency key is already stored.
+ */
+function isDuplicateIdempotencyKey(code: unknown, message?: string): boolean {
+  return code === DUPLICATE_KEY_ERROR && (message ?? "").includes("idempotencyKey");
+}
+
+/**
+ * Adds a filter leaving out expired labels to a query, unless it allows them.
+ */
+function withExpiryFilter(query: LabelQuery): Filter<StoredLabel> {
+  const { allowExpired, ...rest } = query;
+  const restQuery = toStoredFilter(rest);
+  if (allowExpired) {
+    return restQuery;
+  }
+  return {
+    $and: [
+      restQuery,
+      {
+        $or: [
+          { exp: { $exists: false } },
+          // Labels saved before undefined expirations were omitted store them as null
+          { exp: { $type: "null" } },
+          { exp: { $gt: new Date() } },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Extracts the default database named in a MongoDB connection string, if any.
+ */
+function getConnectionStringDatabase(uri: string): string | undefined {
+  const match = /^mongodb(?:\+srv)?:\/\/[^/]+\/([^?]+)/.exec(uri);
+  return match ? decodeURIComponent(match[1]) : undefined;
+}
+
+/**
+ * Translates TLS settings into MongoClient options.
+ */
+function getTlsClientOptions(tls?: boolean | MongoDBTlsOptions): MongoClientOptions {
+  if (tls === undefined) {
+    return {};
+  }
+  if (typeof tls === "boolean") {
+    return { tls };
+  }
+  return {
+    tls: true,
+    ...(tls.caFile ? { tlsCAFile: tls.caFile } : {}),
+    ...(tls.certificateKeyFile ? { tlsCertificateKeyFile: tls.certificateKeyFile } : {}),
+    ...(tls.certificateKeyFilePassword ? { tlsCertificateKeyFilePassword: tls.certificateKeyFilePassword } : {}),
+    ...(tls.allowInvalidCertificates !== undefined ? { tlsAllowInvalidCertificates: tls.allowInvalidCertificates } : {}),
+    ...(tls.allowInvalidHostnames !== undefined ? { tlsAllowInvalidHostnames: tls.allowInvalidHostnames } : {}),
+  };
 }
@@ -0,0 +1,336 @@
+import type { Collection, Filter, ObjectId } from "mongodb";
+import type { MongoDBClient } from "./mongodb.js";
+import type { ModerationSubject } from "./util/types.js";
+import { AtProtocolValidationError } from "./errors";
+import { validateCid, validateDid, validateUri } from "./util/validators.js";
+
+const REPORTS_COLLECTION_NAME = "moderation_reports";
+const COUNTERS_COLLECTION_NAME = "counters";
+const DEFAULT_REPORT_LIMIT = 50;
+const MAX_REASON_LENGTH = 20000;
+
+/**
+ * Whether a report still awaits review.
+ */
+export type ReportStatus = "open" | "resolved";
+
+/**
+ * A report received through `com.atproto.moderation.createReport`.
+ */
+export interface Report {
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  _id: ObjectId;
+  /** The report ID returned to the reporter. */
+  id: number;
+  /** The reason type, such as `com.atproto.moderation.defs#reasonSpam`. */
+  reasonType: string;
+  /** Additional context given by the reporter. */
+  reason?: string;
+  /** The reported account or record. */
+  subject: ModerationSubject;
+  /** The URI of the reported account or record, for querying by subject. */
+  subjectUri: string;
+  /** The DID of the reporter. */
+  reportedBy: `did:${string}`;
+  /** When the report was received, in ISO 8601 format. */
+  createdAt: string;
+  /** Whether the report still awaits review. */
+  status: ReportStatus;
+  /** The DID of the moderator reviewing the report. */
+  assignee?: `did:${string}`;
+  /** When the report was last assigned, in ISO 8601 format. */
+  assignedAt?: string;
+  /** The DID of the moderator who resolved the report. */
+  resolvedBy?: `did:${string}`;
+  /** When the report was resolved, in ISO 8601 format. */
+  resolvedAt?: string;
+  /** How the report was resolved. */
+  resolution?: string;
+  /** The IDs of the labels that resolved the report. */
+  labelIds: ObjectId[];
+}
+
+/**
+ * Filters for listing reports. All filters are optional and combined.
+ *
+ * @param status Only reports with this status.
+ * @param subject Only reports about this account DID or record URI.
+ * @param reportedBy Only reports from this reporter DID.
+ * @param assignee Only reports assigned to this moderator DID.
+ * @param cursor Only reports with an ID greater than this one.
+ * @param limit The maximum number of reports to return. Defaults to 50.
+ */
+export interface ReportQuery {
+  status?: ReportStatus;
+  subject?: string;
+  reportedBy?: `did:${string}`;
+  assignee?: `did:${string}`;
+  cursor?: number;
+  limit?: number;
+}
+
+/**
+ * Reports received by a labeler, stored in MongoDB alongside its labels, and the
+ * moderators' progress reviewing them.
+ *
+ * Reports are numbered with the same `counters` collection that numbers labels.
+ *
+ * @param client The MongoDB client whose database holds the reports.
+ */
+export class ReportManager {
+  private readonly _client: MongoDBClient;
+
+  /**
+   * Create a new ReportManager instance.
+   * @param client The MongoDB client whose database holds the reports.
+   */
+  constructor(client: MongoDBClient) {
+    this._client = client;
+  }
+
+  private get _reports(): Collection<Report> {
+    return this._client.collection<Report>(REPORTS_COLLECTION_NAME);
+  }
+
+  /**
+   * Create the indexes the manager relies on. Must be called once the client is connected.
+   */
+  async init(): Promise<void> {
+    try {
+      await this._reports.createIndexes([
+        { key: { id: 1 }, unique: true },
+        { key: { status: 1, id: 1 } },
+        { key: { subjectUri: 1, id: 1 } },
+      ]);
+    } catch (error) {
+      throw new Error(
+        `Failed to initialize reports: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Store a new report.
+   *
+   * @param report - The reason, subject and reporter of the report.
+   * @returns A promise that resolves to the stored report.
+   * @throws {AtProtocolValidationError} If the report is invalid
+   */
+  async create(report: {
+    reasonType: string;
+    reason?: string;
+    subject: ModerationSubject;
+    reportedBy: `did:${string}`;
+  }): Promise<Report> {
+    if (typeof report.reasonType !== "string" || !report.reasonType) {
+      throw new AtProtocolValidationError("Report reasonType must be a non-empty string");
+    }
+    if (report.reason !== undefined && typeof report.reason !== "string") {
+      throw new AtProtocolValidationError("Report reason must be a string");
+    }
+    if (report.reason && report.reason.length > MAX_REASON_LENGTH) {
+      throw new AtProtocolValidationError(`Report reason cannot exceed ${MAX_REASON_LENGTH} characters`);
+    }
+    validateDid(report.reportedBy);
+    const subject = toSubject(report.subject);
+
+    try {
+      const id = await this._nextReportId();
+      const stored: Omit<Report, "_id"> = {
+        id,
+        reasonType: report.reasonType,
+        ...(report.reason ? { reason: report.reason } : {}),
+        subject,
+        subjectUri: subject.$type === "com.atproto.admin.defs#repoRef" ? subject.did : subject.uri,
+        reportedBy: report.reportedBy,
+        createdAt: new Date().toISOString(),
+        status: "open",
+        labelIds: [],
+      };
+      const result = await this._reports.insertOne(stored as Report);
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      return { ...stored, _id: result.insertedId };
+    } catch (error) {
+      throw new Error(
+        `Failed to save report: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Get a report by ID.
+   *
+   * @param id - The report ID.
+   * @returns A promise that resolves to the report, or null if there is none.
+   */
+  async get(id: number): Promise<Report | null> {
+    try {
+      return await this._reports.findOne({ id });
+    } catch (error) {
+      throw new Error(
+        `Failed to find report: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * List reports in the order they were received.
+   *
+   * @param query - The filters to apply.
+   * @returns A promise that resolves to the matching reports.
+   */
+  async list(query: ReportQuery = {}): Promise<Report[]> {
+    const filter: Filter<Report> = {};
+    if (query.status) {
+      filter.status = query.status;
+    }
+    if (query.subject) {
+      filter.subjectUri = query.subject;
+    }
+    if (query.reportedBy) {
+      filter.reportedBy = query.reportedBy;
+    }
+    if (query.assignee) {
+      filter.assignee = query.assignee;
+    }
+    if (query.cursor !== undefined) {
+      filter.id = { $gt: query.cursor };
+    }
+
+    try {
+      return await this._reports.find(filter).sort({ id: 1 }).limit(query.limit ?? DEFAULT_REPORT_LIMIT).toArray();
+    } catch (error) {
+      throw new Error(
+        `Failed to list reports: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Assign a report to a moderator, or unassign it.
+   *
+   * @param id - The report ID.
+   * @param assignee - The DID of the moderator, or null to unassign the report.
+   * @returns A promise that resolves to the updated report, or null if there is none.
+   */
+  async assign(id: number, assignee: `did:${string}` | null): Promise<Report | null> {
+    if (assignee) {
+      validateDid(assignee);
+    }
+
+    try {
+      return await this._reports.findOneAndUpdate(
+        { id },
+        assignee
+          ? { $set: { assignee, assignedAt: new Date().toISOString() } }
+          : { $unset: { assignee: "", assignedAt: "" } },
+        { returnDocument: "after" },
+      );
+    } catch (error) {
+      throw new Error(
+        `Failed to assign report: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Resolve an open report, linking it to the labels that resolved it, if any.
+   *
+   * @param id - The report ID.
+   * @param resolution - The moderator resolving the report, how it was resolved and the
+   * IDs of the labels that resolved it.
+   * @returns A promise that resolves to the resolved report, or null if there is no open
+   * report with the ID.
+   */
+  async resolve(
+    id: number,
+    resolution: { resolvedBy: `did:${string}`; comment?: string; labelIds?: ObjectId[] },
+  ): Promise<Report | null> {
+    validateDid(resolution.resolvedBy);
+
+    try {
+      return await this._reports.findOneAndUpdate(
+        { id, status: "open" },
+        {
+          $set: {
+            status: "resolved",
+            resolvedBy: resolution.resolvedBy,
+            resolvedAt: new Date().toISOString(),
+            ...(resolution.comment ? { resolution: resolution.comment } : {}),
+          },
+          $addToSet: { labelIds: { $each: resolution.labelIds ?? [] } },
+        },
+        { returnDocument: "after" },
+      );
+    } catch (error) {
+      throw new Error(
+        `Failed to resolve report: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Link a report to labels that resolved it.
+   *
+   * @param id - The report ID.
+   * @param labelIds - The IDs of the labels.
+   * @returns A promise that resolves to the updated report, or null if there is none.
+   */
+  async linkLabels(id: number, labelIds: ObjectId[]): Promise<Report | null> {
+    try {
+      return await this._reports.findOneAndUpdate(
+        { id },
+        { $addToSet: { labelIds: { $each: labelIds } } },
+        { returnDocument: "after" },
+      );
+    } catch (error) {
+      throw new Error(
+        `Failed to link report to labels: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Atomically reserve the next report ID.
+   */
+  private async _nextReportId(): Promise<number> {
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    const counters = this._client.collection<{ _id: string; seq: number }>(COUNTERS_COLLECTION_NAME);
+    const counter = await counters.findOneAndUpdate(
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      { _id: REPORTS_COLLECTION_NAME },
+      { $inc: { seq: 1 } },
+      { upsert: true, returnDocument: "after" },
+    );
+    if (!counter) {
+      throw new Error("Failed to reserve report ID");
+    }
+    return counter.seq;
+  }
+}
+
+/**
+ * Validates a report or case subject, keeping only the fields of its type.
+ */
+export function toSubject(subject: ModerationSubject): ModerationSubject {
+  switch (subject.$type) {
+    case "com.atproto.admin.defs#repoRef":
+      if (typeof subject.did !== "string") {
+        throw new AtProtocolValidationError("Repo subjects must have a string did");
+      }
+      validateDid(subject.did);
+      return { $type: subject.$type, did: subject.did };
+    case "com.atproto.repo.strongRef":
+      if (typeof subject.uri !== "string" || typeof subject.cid !== "string") {
+        throw new AtProtocolValidationError("Record subjects must have a string uri and cid");
+      }
+      if (!subject.uri.startsWith("at://")) {
+        throw new AtProtocolValidationError("Record subjects must have an at:// URI");
+      }
+      validateUri(subject.uri);
+      validateCid(subject.cid);
+      return { $type: subject.$type, uri: subject.uri, cid: subject.cid };
+    default:
+      throw new AtProtocolValidationError("Report subject must be a repoRef or a strongRef");
+  }
+}
@@ -0,0 +1,310 @@
+import type { Collection, Db, Document, IndexDescription, IndexDescriptionInfo } from "mongodb";
+import type { SavedLabel } from "./util/types.js";
+
+/**
+ * How the labels collection's `$jsonSchema` validator treats labels that don't match it.
+ *
+ * - `error` rejects them.
+ * - `warn` saves them and logs a warning in the MongoDB server log.
+ * - `off` leaves the collection's validator as it is.
+ */
+export type SchemaValidationMode = "error" | "warn" | "off";
+
+/**
+ * The indexes the labels collection is expected to have, for the query shapes the labeler uses.
+ */
+export const LABEL_INDEXES: IndexDescription[] = [
+  // Subject lookups, active labels and queryLabels URI patterns, narrowed by value and time
+  { key: { uri: 1, val: 1, cts: 1 } },
+  // Labels by source, over time
+  { key: { src: 1, cts: 1 } },
+  // queryLabels value filters
+  { key: { val: 1 } },
+  // The expiry sweep, in sequence order
+  { key: { exp: 1, seq: 1 } },
+  // The label stream
+  { key: { seq: 1 }, unique: true },
+  { key: { idempotencyKey: 1 }, unique: true, partialFilterExpression: { idempotencyKey: { $type: "string" } } },
+];
+
+/**
+ * Indexes created by earlier versions of the labeler, superseded by the compound
+ * indexes in {@link LABEL_INDEXES} that start with the same field.
+ */
+const SUPERSEDED_LABEL_INDEXES: IndexDescription[] = [{ key: { uri: 1 } }, { key: { src: 1 } }];
+
+/**
+ * The name of the TTL index deleting labels some time after they expire.
+ */
+export const EXPIRED_LABEL_TTL_INDEX_NAME = "exp_ttl";
+
+/**
+ * The `$jsonSchema` stored labels must match, mirroring {@link SavedLabel} with its
+ * timestamps stored as BSON dates. Its title marks validators applied by the labeler.
+ */
+export const LABEL_SCHEMA: Document = {
+  title: "mongodb-labeler label",
+  bsonType: "object",
+  required: ["ver", "val", "uri", "src", "cts", "sig", "seq"],
+  properties: {
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    _id: { bsonType: "objectId" },
+    ver: { enum: [1] },
+    val: { bsonType: "string" },
+    uri: { bsonType: "string" },
+    cid: { bsonType: "string" },
+    neg: { bsonType: "bool" },
+    src: { bsonType: "string", pattern: "^did:" },
+    cts: { bsonType: "date" },
+    exp: { bsonType: "date" },
+    sig: { bsonType: "binData" },
+    // The driver writes numbers beyond the 32-bit range as doubles
+    seq: { bsonType: ["int", "long", "double"] },
+    idempotencyKey: { bsonType: "string" },
+  },
+};
+
+/**
+ * Differences between the labels collection and the indexes and schema the labeler expects.
+ *
+ * @param missingIndexes Expected indexes the collection does not have, by name.
+ * @param conflictingIndexes Expected indexes the collection has with other options, such as
+ * without `unique`, by name. They are not changed automatically.
+ * @param extraIndexes Indexes the labeler does not use, by name. Only those created by earlier
+ * versions of the labeler are dropped automatically.
+ * @param validator Whether the collection's validator is the expected `$jsonSchema`, another
+ * validator, or missing.
+ * @param replacedValidator The validator not applied by the labeler that was replaced, when
+ * replacing it was allowed.
+ * @param invalidLabels The number of stored labels that don't match the schema, when counted.
+ */
+export interface SchemaDriftReport {
+  missingIndexes: string[];
+  conflictingIndexes: string[];
+  extraIndexes: string[];
+  validator: "current" | "outdated" | "missing";
+  replacedValidator?: Document;
+  invalidLabels?: number;
+}
+
+/**
+ * Ensures the labels collection has the indexes and `$jsonSchema` validator the
+ * labeler expects, and reports where an existing deployment differs from them.
+ *
+ * Missing indexes are created and the validator is applied with the `moderate`
+ * validation level, so labels stored before it was applied can still be updated.
+ * Conflicting and extra indexes are only reported, since changing them could
+ * break other applications sharing the collection. The single-field indexes earlier
+ * versions of the labeler created are dropped, as the compound indexes cover them. For the same reason, a validator
+ * the labeler did not apply is reported as outdated and only replaced when allowed.
+ *
+ * With an expired label TTL, a TTL index on `exp` is expected too, so that MongoDB
+ * deletes labels once they have been expired for that long. Its TTL is updated in
+ * place when it changes. Without one, an existing TTL index is reported as extra and
+ * keeps deleting labels until it is dropped.
+ *
+ * @param db The database the labels are stored in.
+ * @param collectionName The name of the labels collection.
+ * @param validation How the validator treats labels that don't match the schema. Defaults to 'error'.
+ * @param expiredLabelTtl How long after their `exp` labels are deleted, in milliseconds.
+ * @param replaceForeignValidator Whether a validator the labeler did not apply is replaced. Defaults to false.
+ */
+export class LabelSchemaManager {
+  private readonly _db: Db;
+  private readonly _collectionName: string;
+  private readonly _validation: SchemaValidationMode;
+  private readonly _indexes: IndexDescription[];
+  private readonly _replaceForeignValidator: boolean;
+
+  /**
+   * Create a new LabelSchemaManager instance.
+   * @param db The database the labels are stored in.
+   * @param collectionName The name of the labels collection.
+   * @param validation How the validator treats labels that don't match the schema. Defaults to 'error'.
+   * @param expiredLabelTtl How long after their `exp` labels are deleted, in milliseconds.
+   * @param replaceForeignValidator Whether a validator the labeler did not apply is replaced. Defaults to false.
+   */
+  constructor(
+    db: Db,
+    collectionName: string,
+    validation: SchemaValidationMode = "error",
+    expiredLabelTtl?: number,
+    replaceForeignValidator: boolean = false,
+  ) {
+    this._db = db;
+    this._collectionName = collectionName;
+    this._validation = validation;
+    this._replaceForeignValidator = replaceForeignValidator;
+    this._indexes = expiredLabelTtl === undefined
+      ? LABEL_INDEXES
+      : [
+        ...LABEL_INDEXES,
+        {
+          key: { exp: 1 },
+          name: EXPIRED_LABEL_TTL_INDEX_NAME,
+          expireAfterSeconds: Math.ceil(expiredLabelTtl / 1000),
+        },
+      ];
+  }
+
+  private get _labels(): Collection<SavedLabel> {
+    return this._db.collection<SavedLabel>(this._collectionName);
+  }
+
+  /**
+   * Create the missing indexes, drop the ones they supersede, update the TTL of the
+   * expired label TTL index, and apply the validator, unless validation is off or
+   * another validator is in place.
+   *
+   * @returns A promise that resolves to the drift left once the schema is ensured.
+   * @throws {Error} If an index cannot be created or the validator cannot be applied
+   */
+  async ensure(): Promise<SchemaDriftReport> {
+    try {
+      const { drift, existing, foreignValidator } = await this._compare();
+      const missing = this._indexes.filter(index => drift.missingIndexes.includes(indexName(index)));
+      if (missing.length) {
+        await this._labels.createIndexes(missing);
+      }
+      const superseded = existing
+        .filter(info => SUPERSEDED_LABEL_INDEXES.some(index =>
+          sameKey(info.key, index.key) && sameOptions(info, index) && info.name === indexName(index)
+        ))
+        .map(info => indexName(info));
+      for (const name of superseded) {
+        await this._labels.dropIndex(name);
+      }
+      drift.extraIndexes = drift.extraIndexes.filter(name => !superseded.includes(name));
+      const ttlIndex = this._indexes.find(index => index.expireAfterSeconds !== undefined);
+      const currentTtlIndex = ttlIndex && existing.find(info => sameKey(info.key, ttlIndex.key));
+      if (ttlIndex && currentTtlIndex?.name && onlyTtlDiffers(currentTtlIndex, ttlIndex)) {
+        await this._db.command({
+          collMod: this._collectionName,
+          index: { name: currentTtlIndex.name, expireAfterSeconds: ttlIndex.expireAfterSeconds },
+        });
+        drift.conflictingIndexes = drift.conflictingIndexes.filter(name => name !== currentTtlIndex.name);
+      }
+      const applyValidator = this._validation !== "off"
+        && drift.validator !== "current"
+        && (!foreignValidator || this._replaceForeignValidator);
+      if (applyValidator) {
+        await this._db.command({
+          collMod: this._collectionName,
+          validator: { $jsonSchema: LABEL_SCHEMA },
+          validationLevel: "moderate",
+          validationAction: this._validation,
+        });
+      }
+      return {
+        ...drift,
+        missingIndexes: [],
+        ...(applyValidator ? { validator: "current" } : {}),
+        ...(applyValidator && foreignValidator ? { replacedValidator: foreignValidator } : {}),
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to ensure label schema: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Compare the collection with the expected indexes and schema without changing it,
+   * counting the stored labels that don't match the schema.
+   *
+   * @returns A promise that resolves to the drift report.
+   * @throws {Error} If the collection cannot be inspected
+   */
+  async check(): Promise<SchemaDriftReport> {
+    try {
+      const { drift } = await this._compare();
+      const invalidLabels = await this._labels.countDocuments({ $nor: [{ $jsonSchema: LABEL_SCHEMA }] });
+      return { ...drift, invalidLabels };
+    } catch (error) {
+      throw new Error(
+        `Failed to check label schema: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Compares the collection's indexes and validator with the expected ones, returning
+   * the drift, the collection's indexes and its validator if the labeler did not apply it.
+   */
+  private async _compare(): Promise<{
+    drift: SchemaDriftReport;
+    existing: IndexDescriptionInfo[];
+    foreignValidator?: Document;
+  }> {
+    const collection = (await this._db.listCollections({ name: this._collectionName }).toArray()).at(0);
+    const existing: IndexDescriptionInfo[] = collection ? await this._labels.indexes() : [];
+
+    const drift: SchemaDriftReport = { missingIndexes: [], conflictingIndexes: [], extraIndexes: [], validator: "missing" };
+    for (const index of this._indexes) {
+      const found = existing.find(info => sameKey(info.key, index.key));
+      if (!found) {
+        drift.missingIndexes.push(indexName(index));
+      } else if (!sameOptions(found, index)) {
+        drift.conflictingIndexes.push(found.name ?? indexName(found));
+      }
+    }
+    drift.extraIndexes = existing
+      .filter(info => info.name !== "_id_" && !this._indexes.some(index => sameKey(info.key, index.key)))
+      .map(info => info.name ?? indexName(info));
+
+    const options = (collection as { options?: { validator?: Document; validationAction?: string } } | undefined)
+      ?.options;
+    if (options?.validator && Object.keys(options.validator).length > 0) {
+      const current = JSON.stringify(options.validator) === JSON.stringify({ $jsonSchema: LABEL_SCHEMA })
+        && (this._validation === "off" || options.validationAction === this._validation);
+      drift.validator = current ? "current" : "outdated";
+      if (!isLabelerValidator(options.validator)) {
+        return { drift, existing, foreignValidator: options.validator };
+      }
+    }
+    return { drift, existing };
+  }
+}
+
+/**
+ * Checks whether a drift report shows any difference from the expected schema.
+ */
+export function hasSchemaDrift(drift: SchemaDriftReport): boolean {
+  return drift.missingIndexes.length > 0
+    || drift.conflictingIndexes.length > 0
+    || drift.extraIndexes.length > 0
+    || drift.validator !== "current"
+    || (drift.invalidLabels ?? 0) > 0;
+}
+
+/**
+ * Checks whether a validator is a `$jsonSchema` applied by the labeler, possibly an older version.
+ */
+function isLabelerValidator(validator: Document): boolean {
+  const schema = (validator as { $jsonSchema?: Document }).$jsonSchema;
+  return Object.keys(validator).length === 1 && schema?.title === LABEL_SCHEMA.title;
+}
+
+/**
+ * The name MongoDB gives an index by default, like `uri_1_val_1_cts_1`.
+ */
+function indexName(index: IndexDescription): string {
+  return index.name ?? Object.entries(index.key).map(([field, direction]) => `${field}_${String(direction)}`).join("_");
+}
+
+function sameKey(a: Document, b: Document): boolean {
+  return JSON.stringify(Object.entries(a)) === JSON.stringify(Object.entries(b));
+}
+
+function sameOptions(info: IndexDescriptionInfo, index: IndexDescription): boolean {
+  return Boolean(info.unique) === Boolean(index.unique)
+    && JSON.stringify(info.partialFilterExpression) === JSON.stringify(index.partialFilterExpression)
+    && info.expireAfterSeconds === index.expireAfterSeconds;
+}
+
+/**
+ * Checks whether an index only differs from the expected one in its TTL, which can be changed in place.
+ */
+function onlyTtlDiffers(info: IndexDescriptionInfo, index: IndexDescription): boolean {
+  return !sameOptions(info, index) && sameOptions({ ...info, expireAfterSeconds: index.expireAfterSeconds }, index);
+}
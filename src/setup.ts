@@ -0,0 +1,303 @@
+import { Secp256k1Keypair } from "@atproto/crypto";
+import type {
+  ComAtprotoIdentityGetRecommendedDidCredentials,
+  ComAtprotoIdentitySignPlcOperation,
+  ComAtprotoRepoGetRecord,
+  ComAtprotoRepoPutRecord,
+  ComAtprotoServerCreateSession,
+} from "@atcute/client/lib/lexicons";
+import type { LabelerConfig, LabelerPolicies, LoginCredentials } from "./types/index.js";
+import type { DidDocument } from "./util/did.js";
+import { LabelerServerError, XRPCError } from "./errors";
+
+const DEFAULT_PDS = "https://bsky.social";
+const LABELER_SERVICE_COLLECTION = "app.bsky.labeler.service";
+
+/**
+ * An authenticated XRPC session with the labeler account's PDS.
+ *
+ * @param service The URL of the PDS hosting the account.
+ * @param did The DID of the logged in account.
+ * @param accessJwt The access token sent with each request.
+ */
+export class PdsSession {
+  constructor(
+    public readonly service: string,
+    public readonly did: `did:${string}`,
+    private readonly _accessJwt: string,
+  ) {}
+
+  /**
+   * Make an XRPC query (GET) request.
+   *
+   * @param nsid - The NSID of the query.
+   * @param params - The query parameters.
+   * @returns A promise that resolves to the response body.
+   * @throws {XRPCError} If the PDS responds with an error
+   */
+  get<T>(nsid: string, params: Record<string, string> = {}): Promise<T> {
+    return xrpcRequest<T>(this.service, nsid, { method: "GET", params, accessJwt: this._accessJwt });
+  }
+
+  /**
+   * Make an XRPC procedure (POST) request.
+   *
+   * @param nsid - The NSID of the procedure.
+   * @param data - The JSON request body, if any.
+   * @returns A promise that resolves to the response body.
+   * @throws {XRPCError} If the PDS responds with an error
+   */
+  call<T>(nsid: string, data?: unknown): Promise<T> {
+    return xrpcRequest<T>(this.service, nsid, { method: "POST", data, accessJwt: this._accessJwt });
+  }
+}
+
+/**
+ * Result of adding the labeler service and signing key to the labeler's DID document.
+ */
+export interface PlcSetupResult {
+  /** The hex-encoded private signing key, to be passed to LabelerServer as `signingKey`. */
+  signingKey: string;
+  /** The `did:key` published as the `#atproto_label` verification method. */
+  signingKeyDid: string;
+  /** The PLC operation that was submitted. */
+  operation: unknown;
+}
+
+/**
+ * Log in to the labeler account's PDS.
+ *
+ * Requests are sent to the PDS named in the account's DID document, if the
+ * session includes one, so logging in through an entryway works.
+ *
+ * @param credentials - The account credentials. The PDS defaults to https://bsky.social.
+ * @returns A promise that resolves to an authenticated session.
+ * @throws {LabelerServerError} If the login fails
+ */
+export async function loginLabeler(credentials: LoginCredentials): Promise<PdsSession> {
+  const service = credentials.pds ?? DEFAULT_PDS;
+  try {
+    const session = await xrpcRequest<ComAtprotoServerCreateSession.Output>(
+      service,
+      "com.atproto.server.createSession",
+      {
+        method: "POST",
+        data: {
+          identifier: credentials.identifier,
+          password: credentials.password,
+          ...(credentials.code ? { authFactorToken: credentials.code } : {}),
+        },
+      },
+    );
+    const pds = getPdsEndpoint(session.didDoc as DidDocument | undefined) ?? service;
+    return new PdsSession(pds, session.did, session.accessJwt);
+  } catch (error) {
+    throw new LabelerServerError(
+      "Failed to log in to the PDS",
+      error instanceof Error ? error : new Error(String(error)),
+    );
+  }
+}
+
+/**
+ * Write or update the labeler's `app.bsky.labeler.service` record, declaring the
+ * label values it emits.
+ *
+ * The record's original `createdAt` is kept when it is updated, and the write
+ * fails if the record changed since it was read.
+ *
+ * @param credentials - The labeler account credentials.
+ * @param policies - The label values to declare, as returned by
+ * {@link LabelDefinitionRegistry.getLabelerPolicies}.
+ * @returns A promise that resolves to the URI and CID of the written record.
+ * @throws {LabelerServerError} If logging in or writing the record fails
+ */
+export async function declareLabeler(
+  credentials: LoginCredentials,
+  policies: LabelerPolicies,
+): Promise<{ uri: string; cid: string }> {
+  const session = await loginLabeler(credentials);
+  try {
+    const existing = await getLabelerServiceRecord(session);
+    const input: ComAtprotoRepoPutRecord.Input = {
+      repo: session.did,
+      collection: LABELER_SERVICE_COLLECTION,
+      rkey: "self",
+      record: {
+        $type: LABELER_SERVICE_COLLECTION,
+        policies,
+        createdAt: (existing?.value as { createdAt?: string } | undefined)?.createdAt ?? new Date().toISOString(),
+      },
+      swapRecord: existing?.cid ?? null,
+    };
+    const { uri, cid } = await session.call<ComAtprotoRepoPutRecord.Output>("com.atproto.repo.putRecord", input);
+    return { uri, cid };
+  } catch (error) {
+    throw new LabelerServerError(
+      "Failed to write the labeler service record",
+      error instanceof Error ? error : new Error(String(error)),
+    );
+  }
+}
+
+/**
+ * Request the email with the token needed to sign a PLC operation for the
+ * labeler's DID.
+ *
+ * @param credentials - The labeler account credentials.
+ * @throws {LabelerServerError} If logging in or requesting the token fails
+ */
+export async function requestPlcToken(credentials: LoginCredentials): Promise<void> {
+  const session = await loginLabeler(credentials);
+  try {
+    await session.call("com.atproto.identity.requestPlcOperationSignature");
+  } catch (error) {
+    throw new LabelerServerError(
+      "Failed to request a PLC operation token",
+      error instanceof Error ? error : new Error(String(error)),
+    );
+  }
+}
+
+/**
+ * Add the `#atproto_labeler` service endpoint and the `#atproto_label` signing key
+ * to the labeler's DID document, through a PLC operation signed by its PDS.
+ *
+ * Other services and verification methods recommended by the PDS are kept. If no
+ * signing key is given, a new one is generated and returned.
+ *
+ * @param config - The labeler DID, password, PDS, PLC token from {@link requestPlcToken},
+ * the endpoint the labeler is served at and, optionally, its signing key.
+ * @returns A promise that resolves to the signing key and the submitted operation.
+ * @throws {LabelerServerError} If the configuration is invalid or the operation is rejected
+ */
+export async function plcSetupLabeler(config: LabelerConfig): Promise<PlcSetupResult> {
+  if (!config.did.startsWith("did:plc:")) {
+    throw new LabelerServerError("Only did:plc DIDs can be updated with a PLC operation");
+  }
+  if (!config.plcToken) {
+    throw new LabelerServerError("A PLC token is required; request one with requestPlcToken");
+  }
+  try {
+    new URL(config.endpoint);
+  } catch {
+    throw new LabelerServerError(`Invalid labeler endpoint: ${config.endpoint}`);
+  }
+
+  const keypair = config.signingKey
+    ? await Secp256k1Keypair.import(config.signingKey, { exportable: true })
+    : await Secp256k1Keypair.create({ exportable: true });
+
+  const session = await loginLabeler({ identifier: config.did, password: config.password, pds: config.pds });
+  if (session.did !== config.did) {
+    throw new LabelerServerError(`Logged in as ${session.did} instead of ${config.did}`);
+  }
+
+  try {
+    const recommended = await session.get<ComAtprotoIdentityGetRecommendedDidCredentials.Output>(
+      "com.atproto.identity.getRecommendedDidCredentials",
+    );
+    const input: ComAtprotoIdentitySignPlcOperation.Input = {
+      token: config.plcToken,
+      ...(recommended.rotationKeys ? { rotationKeys: recommended.rotationKeys } : {}),
+      ...(recommended.alsoKnownAs ? { alsoKnownAs: recommended.alsoKnownAs } : {}),
+      services: {
+        ...(recommended.services as Record<string, unknown> | undefined),
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        atproto_labeler: { type: "AtprotoLabeler", endpoint: config.endpoint },
+      },
+      verificationMethods: {
+        ...(recommended.verificationMethods as Record<string, string> | undefined),
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        atproto_label: keypair.did(),
+      },
+    };
+    const signed = await session.call<ComAtprotoIdentitySignPlcOperation.Output>(
+      "com.atproto.identity.signPlcOperation",
+      input,
+    );
+    await session.call("com.atproto.identity.submitPlcOperation", { operation: signed.operation });
+
+    return {
+      signingKey: Buffer.from(await keypair.export()).toString("hex"),
+      signingKeyDid: keypair.did(),
+      operation: signed.operation,
+    };
+  } catch (error) {
+    throw new LabelerServerError(
+      "Failed to update the labeler DID document",
+      error instanceof Error ? error : new Error(String(error)),
+    );
+  }
+}
+
+/**
+ * Fetch the labeler's current service record, or undefined if it has none.
+ */
+async function getLabelerServiceRecord(session: PdsSession): Promise<ComAtprotoRepoGetRecord.Output | undefined> {
+  try {
+    return await session.get<ComAtprotoRepoGetRecord.Output>("com.atproto.repo.getRecord", {
+      repo: session.did,
+      collection: LABELER_SERVICE_COLLECTION,
+      rkey: "self",
+    });
+  } catch (error) {
+    if (error instanceof XRPCError && error.error === "RecordNotFound") {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Finds the `#atproto_pds` service endpoint in a DID document.
+ */
+function getPdsEndpoint(doc?: DidDocument): string | undefined {
+  const service = doc?.service?.find((service) =>
+    service.id === "#atproto_pds" || service.id === `${doc.id}#atproto_pds`
+  );
+  return typeof service?.serviceEndpoint === "string" ? service.serviceEndpoint : undefined;
+}
+
+/**
+ * Sends an XRPC request, throwing the `{ error, message }` body of failed responses as an XRPCError.
+ *
+ * The method path is resolved under the service URL's path, so services behind a path prefix work.
+ */
+async function xrpcRequest<T>(
+  service: string,
+  nsid: string,
+  options: { method: "GET" | "POST"; params?: Record<string, string>; data?: unknown; accessJwt?: string },
+): Promise<T> {
+  const url = new URL(`xrpc/${nsid}`, service.endsWith("/") ? service : `${service}/`);
+  for (const [key, value] of Object.entries(options.params ?? {})) {
+    url.searchParams.set(key, value);
+  }
+
+  const headers: Record<string, string> = {};
+  if (options.data !== undefined) {
+    headers["content-type"] = "application/json";
+  }
+  if (options.accessJwt) {
+    headers.authorization = `Bearer ${options.accessJwt}`;
+  }
+
+  const response = await fetch(url, {
+    method: options.method,
+    headers,
+    ...(options.data !== undefined ? { body: JSON.stringify(options.data) } : {}),
+  });
+  const text = await response.text();
+  let body: unknown;
+  try {
+    body = text ? JSON.parse(text) : undefined;
+  } catch {
+    body = undefined;
+  }
+
+  if (!response.ok) {
+    const { error, message } = (body ?? {}) as { error?: string; message?: string };
+    throw new XRPCError(response.status, error ?? "UnknownError", message ?? `${nsid} failed with status ${response.status}`);
+  }
+  return body as T;
+}
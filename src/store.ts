@@ -0,0 +1,150 @@
+import type { Filter, ObjectId } from "mongodb";
+import type { SavedLabel, UnsignedLabel } from "./util/types.js";
+
+/**
+ * A query for stored labels, in MongoDB filter syntax.
+ *
+ * Expired labels are left out unless `allowExpired` is set.
+ */
+export type LabelQuery = Filter<SavedLabel> & { allowExpired?: boolean };
+
+/**
+ * Options for finding stored labels.
+ *
+ * @param sort Fields to sort by, in order, with 1 for ascending and -1 for descending.
+ * @param skip The number of matching labels to skip.
+ * @param limit The maximum number of labels to return.
+ */
+export interface LabelFindOptions {
+  sort?: { [K in keyof SavedLabel]?: 1 | -1 };
+  skip?: number;
+  limit?: number;
+}
+
+/**
+ * Options for resolving the labels that currently apply to a subject.
+ *
+ * @param src Only consider labels from this source DID.
+ */
+export interface ActiveLabelOptions {
+  src?: `did:${string}`;
+}
+
+/**
+ * Options for saving a batch of labels.
+ *
+ * @param ordered Whether to stop at the first label that fails to save, leaving the
+ * rest unsaved. Defaults to true.
+ */
+export interface SaveLabelsOptions {
+  ordered?: boolean;
+}
+
+/**
+ * Result of saving a batch of labels, keyed by each label's index in the batch.
+ *
+ * @param saved The labels that were saved.
+ * @param errors The labels that were not saved, and why.
+ */
+export interface SaveLabelsResult {
+  saved: Array<{ index: number; label: SavedLabel }>;
+  errors: Array<{ index: number; error: Error }>;
+}
+
+/**
+ * Storage backend for the labels served by a LabelerServer.
+ *
+ * {@link MongoDBClient} is the default implementation; {@link MemoryLabelStore}
+ * keeps labels in memory for tests and tools that don't run MongoDB.
+ */
+export interface LabelStore {
+  /**
+   * Prepare the store for use. Must be called before any other method.
+   */
+  connect(): Promise<void>;
+
+  /**
+   * Release any resources held by the store.
+   */
+  close(): Promise<void>;
+
+  /**
+   * Save a label, assigning it an ID and the next sequence number.
+   *
+   * @param label - The label to save, including its signature and optional idempotency key.
+   * @returns A promise that resolves to the saved label.
+   * @throws {DuplicateIdempotencyKeyError} If a stored label has the same idempotency key
+   */
+  saveLabel(label: UnsignedLabel & { sig: ArrayBuffer; idempotencyKey?: string }): Promise<SavedLabel>;
+
+  /**
+   * Save a batch of labels, assigning them IDs and consecutive sequence numbers in
+   * batch order. Labels that fail to save are reported instead of thrown, with a
+   * {@link DuplicateIdempotencyKeyError} for labels whose idempotency key is already stored.
+   *
+   * @param labels - The labels to save, including their signatures and optional idempotency keys.
+   * @param options - Options for saving the batch.
+   * @returns A promise that resolves to the saved labels and the errors, by index.
+   */
+  saveLabels(
+    labels: Array<UnsignedLabel & { sig: ArrayBuffer; idempotencyKey?: string }>,
+    options?: SaveLabelsOptions,
+  ): Promise<SaveLabelsResult>;
+
+  /**
+   * Find labels matching a query.
+   *
+   * @param query - The query to filter labels by.
+   * @param options - Sorting and pagination options.
+   * @returns A promise that resolves to the matching labels.
+   */
+  findLabels(query?: LabelQuery, options?: LabelFindOptions): Promise<SavedLabel[]>;
+
+  /**
+   * Find a single label matching a query, including expired labels.
+   *
+   * @param query - The query to filter labels by.
+   * @returns A promise that resolves to the matching label, or null if there is none.
+   */
+  findOne(query: Filter<SavedLabel>): Promise<SavedLabel | null>;
+
+  /**
+   * Retrieve labels with a sequence number greater than a cursor, in sequence order,
+   * including expired labels.
+   *
+   * @param cursor - The sequence number after which labels should be retrieved.
+   * @param limit - The maximum number of labels to return.
+   * @returns A promise that resolves to the labels after the cursor.
+   */
+  getLabelsAfterCursor(cursor: number, limit: number): Promise<SavedLabel[]>;
+
+  /**
+   * Replace the fields of a stored label.
+   *
+   * @param id - The ID of the label to update.
+   * @param label - The new label data.
+   * @returns A promise that resolves to true if the label was changed.
+   */
+  updateLabel(id: ObjectId, label: UnsignedLabel & { sig: ArrayBuffer }): Promise<boolean>;
+
+  /**
+   * Resolve the labels that currently apply to a subject.
+   *
+   * The history of each `(src, uri, val)` is collapsed to its latest label by `cts`,
+   * then sequence number. Values whose latest label is a negation or has expired
+   * are left out.
+   *
+   * @param uri - The subject URI.
+   * @param options - Options to narrow down the labels considered.
+   * @returns A promise that resolves to the effective labels, in sequence order.
+   */
+  getActiveLabels(uri: string, options?: ActiveLabelOptions): Promise<SavedLabel[]>;
+
+  /**
+   * Count the labels matching a query.
+   *
+   * @param query - The query to filter labels by.
+   * @returns A promise that resolves to the number of matching labels.
+   */
+  countLabels(query?: LabelQuery): Promise<number>;
+}
@@ -1,8 +1,21 @@
+export interface LabelDefinitionLocale {
+  lang: string;
+  name: string;
+  description: string;
+}
+
 export interface LabelDefinition {
   identifier: string;
-  value: string;
-  description?: string;
-  negation?: boolean;
+  severity: "inform" | "alert" | "none";
+  blurs: "content" | "media" | "none";
+  defaultSetting?: "ignore" | "warn" | "hide";
+  adultOnly?: boolean;
+  locales: LabelDefinitionLocale[];
+}
+
+export interface LabelerPolicies {
+  labelValues: string[];
+  labelValueDefinitions: LabelDefinition[];
 }
 
 export interface SavedLabel {
@@ -46,4 +59,6 @@ export interface LabelerConfig {
   password: string;
   pds?: string;
   plcToken?: string;
+  endpoint: string;
+  signingKey?: string;
 }
@@ -0,0 +1,118 @@
+import { DID_KEY_PREFIX, formatDidKey, multibaseToBytes, SECP256K1_JWT_ALG } from "@atproto/crypto";
+
+/**
+ * A verification method listed in a DID document.
+ */
+export interface DidVerificationMethod {
+  id: string;
+  type: string;
+  controller: string;
+  publicKeyMultibase?: string;
+}
+
+/**
+ * A service listed in a DID document.
+ */
+export interface DidService {
+  id: string;
+  type: string;
+  serviceEndpoint: string | Record<string, unknown>;
+}
+
+/**
+ * The subset of a DID document needed to find a labeler's signing key and services.
+ */
+export interface DidDocument {
+  id: string;
+  verificationMethod?: DidVerificationMethod[];
+  service?: DidService[];
+}
+
+/**
+ * Resolves a DID to its DID document, or null if it cannot be found.
+ */
+export type DidResolver = (did: string) => Promise<DidDocument | null>;
+
+/**
+ * Converts a raw secp256k1 public key into a `did:key`.
+ *
+ * @param publicKey - The compressed secp256k1 public key.
+ * @returns The `did:key` for the public key.
+ */
+export function publicKeyToDidKey(publicKey: Uint8Array): string {
+  return formatDidKey(SECP256K1_JWT_ALG, publicKey);
+}
+
+/**
+ * Finds the `#atproto_label` signing key in a DID document.
+ *
+ * @param doc - The DID document to search.
+ * @returns The signing key as a `did:key`, or undefined if the document does not declare one.
+ */
+export function getLabelerSigningKey(doc: DidDocument): string | undefined {
+  return getVerificationMethodKey(doc, "atproto_label");
+}
+
+/**
+ * Finds the `#atproto` signing key in a DID document, which signs the account's
+ * repository and its inter-service auth tokens.
+ *
+ * @param doc - The DID document to search.
+ * @returns The signing key as a `did:key`, or undefined if the document does not declare one.
+ */
+export function getAtprotoSigningKey(doc: DidDocument): string | undefined {
+  return getVerificationMethodKey(doc, "atproto");
+}
+
+/**
+ * Resolves the key that labels from a labeler should verify against.
+ *
+ * A `did:key` is returned as is. Any other DID is resolved to its DID document,
+ * and the `#atproto_label` verification method is used.
+ *
+ * @param did - A `did:key`, or the DID of the labeler.
+ * @param resolver - The resolver used for DIDs that are not a `did:key`.
+ * @returns The signing key as a `did:key`.
+ * @throws {Error} If the DID cannot be resolved or declares no label signing key
+ */
+export async function resolveLabelerKey(did: string, resolver?: DidResolver): Promise<string> {
+  if (did.startsWith(DID_KEY_PREFIX)) {
+    return did;
+  }
+  if (!resolver) {
+    throw new Error(`A DID resolver is required to resolve the signing key for ${did}`);
+  }
+
+  const doc = await resolver(did);
+  if (!doc) {
+    throw new Error(`Could not resolve DID document for ${did}`);
+  }
+
+  const key = getLabelerSigningKey(doc);
+  if (!key) {
+    throw new Error(`DID document for ${did} has no #atproto_label verification method`);
+  }
+  return key;
+}
+
+/**
+ * Finds a verification method by fragment in a DID document, as a `did:key`.
+ */
+function getVerificationMethodKey(doc: DidDocument, fragment: string): string | undefined {
+  const method = doc.verificationMethod?.find((method) =>
+    method.id === `#${fragment}` || method.id === `${doc.id}#${fragment}`
+  );
+  if (!method?.publicKeyMultibase) {
+    return undefined;
+  }
+
+  // Multikey values already carry the key type prefix; legacy verification key
+  // types only hold the raw compressed key
+  if (method.type === "Multikey") {
+    return `${DID_KEY_PREFIX}${method.publicKeyMultibase}`;
+  }
+  if (method.type === "EcdsaSecp256k1VerificationKey2019") {
+    return publicKeyToDidKey(multibaseToBytes(method.publicKeyMultibase));
+  }
+  return undefined;
+}
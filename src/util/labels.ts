@@ -1,11 +1,19 @@
-import { Secp256k1Keypair } from "@atproto/crypto";
-import type { FormattedLabel, SignedLabel, UnsignedLabel } from "./types.js";
+import { cborEncode } from "@atproto/common";
+import { parseDidKey, Secp256k1Keypair, verifySignature } from "@atproto/crypto";
+import { Binary } from "mongodb";
+import type { FormattedLabel, SavedLabel, SignedLabel, UnsignedLabel } from "./types.js";
 import { excludeNullish } from "./util.js";
+import { publicKeyToDidKey } from "./did.js";
 
 const LABEL_VERSION = 1 as const;
 
-function formatLabelCbor(label: UnsignedLabel): UnsignedLabel {
-  return excludeNullish({ ...label, ver: LABEL_VERSION, neg: !!label.neg });
+export function formatLabelCbor(label: UnsignedLabel): UnsignedLabel {
+  const { val, uri, cid, src, cts, exp } = label;
+  return excludeNullish({ ver: LABEL_VERSION, val, uri, cid, neg: !!label.neg, src, cts, exp });
+}
+
+export function encodeLabelCbor(label: UnsignedLabel): Uint8Array {
+  return cborEncode(formatLabelCbor(label));
 }
 
 export function formatLabel(
@@ -26,10 +34,46 @@ export async function signLabel(
 ): Promise<SignedLabel> {
   const toSign = formatLabelCbor(label);
   const keypair = new Secp256k1Keypair(signingKey, false);
-  const sig = await keypair.sign(Buffer.from(JSON.stringify(toSign)));
+  const sig = await keypair.sign(cborEncode(toSign));
   return { ...toSign, sig };
 }
 
+export function toSignedLabel(label: SavedLabel): SignedLabel {
+  const { ver, val, uri, cid, neg, src, cts, exp } = label;
+  const sig: unknown = label.sig;
+  return excludeNullish({
+    ver,
+    val,
+    uri,
+    cid,
+    neg,
+    src,
+    cts,
+    exp,
+    sig: sig instanceof Binary ? sig.value() : new Uint8Array(label.sig),
+  });
+}
+
+export async function verifyLabel(
+  label: UnsignedLabel & { sig: Uint8Array | { $bytes: string } },
+  didKeyOrPublicKey: string | Uint8Array,
+): Promise<boolean> {
+  const didKey = typeof didKeyOrPublicKey === "string"
+    ? didKeyOrPublicKey
+    : publicKeyToDidKey(didKeyOrPublicKey);
+  // Throws for malformed or unsupported keys
+  parseDidKey(didKey);
+
+  const sig = label.sig instanceof Uint8Array
+    ? label.sig
+    : new Uint8Array(Buffer.from(label.sig.$bytes, "base64"));
+  try {
+    return await verifySignature(didKey, encodeLabelCbor(label), sig);
+  } catch {
+    return false;
+  }
+}
+
 export function labelIsSigned<T extends UnsignedLabel>(label: T): label is T & SignedLabel {
   return "sig" in label && label.sig !== undefined;
 }
@@ -53,20 +53,123 @@ export interface UnsignedLabel {
 /**
  * Data required to create a label.
  */
-export type CreateLabelData = Omit<UnsignedLabel, 'ver'> & { ver?: number };
+export type CreateLabelData = Omit<UnsignedLabel, 'ver'> & {
+  ver?: number;
+  /**
+   * A client-supplied key identifying this label creation. Creating a label with a key
+   * that is already stored returns the stored label instead of creating a duplicate.
+   * Not part of the signed label.
+   */
+  idempotencyKey?: string;
+};
 
 /**
  * Data required to create a label.
  */
 export type SignedLabel = UnsignedLabel & { sig: Uint8Array };
 export type FormattedLabel = UnsignedLabel & { sig?: At.Bytes };
+/**
+ * A label as stored in the database, with its position in the label stream.
+ */
 // eslint-disable-next-line @typescript-eslint/naming-convention
-export type SavedLabel = UnsignedLabel & { sig: ArrayBuffer; _id: ObjectId };
+export type SavedLabel = UnsignedLabel & { sig: ArrayBuffer; _id: ObjectId; seq: number; idempotencyKey?: string };
 export type MongoSavedLabel = Omit<SavedLabel, "sig" | "_id"> & {
   id: ObjectId;
   sig: Binary;
 };
 
+/**
+ * Result of auditing stored label signatures.
+ */
+export interface LabelVerificationReport {
+  /** The `did:key` the labels were verified against. */
+  key: string;
+  /** The number of labels checked. */
+  checked: number;
+  /** The labels whose signature does not verify against the key. */
+  invalid: Array<{ id: ObjectId; label: SignedLabel }>;
+}
+
+/**
+ * The subject of a report or moderation event: an account, or a specific version of a record.
+ */
+export type ModerationSubject =
+  | { $type: "com.atproto.admin.defs#repoRef"; did: `did:${string}` }
+  | { $type: "com.atproto.repo.strongRef"; uri: string; cid: string };
+
+/**
+ * Who performed a label operation and why, as recorded in the moderation event log.
+ */
+export interface ModerationContext {
+  /** The DID of the moderator performing the operation. Defaults to the labeler's DID. */
+  actor?: `did:${string}`;
+  /** Why the operation was performed. */
+  comment?: string;
+}
+
+/**
+ * Options for creating a batch of labels.
+ */
+export interface CreateLabelsOptions {
+  /** Whether to allow expired timestamps. */
+  allowExpired?: boolean;
+  /** Whether to stop saving at the first label that fails to save. Defaults to true. */
+  ordered?: boolean;
+}
+
+/**
+ * Filters for querying stored labels. Labels must match every filter given.
+ */
+export interface QueryLabelsOptions {
+  /**
+   * Subject URIs or DIDs to match exactly, or prefixes ending in `*`, like
+   * `at://did:plc:alice/app.bsky.feed.post/*`. A lone `*` matches every subject.
+   */
+  uriPatterns?: string[];
+  /** Only match labels on accounts (`did:` subjects) or on records (`at://` subjects). */
+  subjectType?: "account" | "record";
+  /** Only match labels from these source DIDs. */
+  sources?: `did:${string}`[];
+  /** Only match labels with these values. */
+  vals?: string[];
+  /** Only match negations, or only labels that are not negations. */
+  neg?: boolean;
+  /** Only match labels created at or after this time, in ISO 8601 format. */
+  since?: string;
+  /** Only match labels created before this time, in ISO 8601 format. */
+  until?: string;
+  /** Only match labels on this version of a record. */
+  cid?: string;
+  /** Only match labels expiring at this time, in ISO 8601 format. */
+  exp?: string;
+  /** Whether to include expired labels. */
+  allowExpired?: boolean;
+  /** The maximum number of labels to return, from 1 to 250. Defaults to 50. */
+  limit?: number;
+  /** The cursor returned with the previous page, issued for the same filters. */
+  cursor?: string;
+}
+
+/**
+ * A page of labels matching a query.
+ */
+export interface QueryLabelsResult {
+  /** The labels, in sequence order. */
+  labels: SignedLabel[];
+  /** The cursor to pass to get the next page. Present unless no label was ever returned. */
+  cursor?: string;
+}
+
+/**
+ * Result of creating a batch of labels, keyed by each label's index in the batch.
+ */
+export interface CreateLabelsResult {
+  /** The labels that were created, with their sequence numbers. */
+  labels: Array<{ index: number; label: SignedLabel; seq: number }>;
+  /** The labels that failed validation, signing or saving, and why. */
+  errors: Array<{ index: number; error: Error }>;
+}
+
 export type QueryHandler<
   T extends RouteGenericInterface["Querystring"] = RouteGenericInterface["Querystring"],
 > = RouteHandlerMethod<
@@ -3,6 +3,7 @@ import { AtUri } from "@atproto/syntax";
 import * as cidModule from 'multiformats/cid'
 import { isValid, parseISO, isAfter, isBefore, isEqual, getDaysInMonth } from 'date-fns';
 import  {AtProtocolValidationError} from '../errors';
+import type { LabelDefinition } from '../types/index.js';
 
 const CID = cidModule.CID;
 
@@ -81,6 +82,32 @@ export function validateUri(uri: string): void {
   }
 }
 
+/**
+ * Validates a subject pattern, which matches a URI exactly, or every URI starting with
+ * the preceding prefix if it ends in `*`
+ * @param pattern - The pattern to validate
+ * @throws {AtProtocolValidationError} If a wildcard appears anywhere but at the end of the
+ * pattern, or a pattern without one is not a valid URI
+ */
+export function validateSubjectPattern(pattern: string): void {
+  const starIndex = pattern.indexOf("*");
+  if (starIndex === -1) {
+    validateUri(pattern);
+  } else if (starIndex !== pattern.length - 1) {
+    throw new AtProtocolValidationError(`Only trailing wildcards are supported in subject patterns: ${pattern}`);
+  }
+}
+
+/**
+ * Checks a subject URI against a pattern accepted by {@link validateSubjectPattern}
+ * @param pattern - The pattern to match
+ * @param uri - The subject URI
+ * @returns True if the URI matches the pattern
+ */
+export function matchesSubjectPattern(pattern: string, uri: string): boolean {
+  return pattern.endsWith("*") ? uri.startsWith(pattern.slice(0, -1)) : uri === pattern;
+}
+
 /**
  * @deprecated Use validateUri instead which supports both did: and at:// URIs
  */
@@ -258,3 +285,36 @@ export function validateCts(cts: string): void {
 export function validateExp(exp: string, allowExpired: boolean = false): void {
   validateTimestamp(exp, 'exp', allowExpired);
 }
+
+/**
+ * Validates a custom label value definition according to the `com.atproto.label.defs#labelValueDefinition` lexicon.
+ * @param definition - The label definition to validate
+ * @throws {AtProtocolValidationError} If the definition is invalid
+ */
+export function validateLabelDefinition(definition: LabelDefinition): void {
+  if (!/^[a-z-]+$/.test(definition.identifier) || definition.identifier.length > 100) {
+    throw new AtProtocolValidationError(
+      "Label definition identifier must be at most 100 lowercase ASCII letters and hyphens",
+    );
+  }
+  if (!["inform", "alert", "none"].includes(definition.severity)) {
+    throw new AtProtocolValidationError("Label definition severity must be one of: inform, alert, none");
+  }
+  if (!["content", "media", "none"].includes(definition.blurs)) {
+    throw new AtProtocolValidationError("Label definition blurs must be one of: content, media, none");
+  }
+  if (definition.defaultSetting && !["ignore", "warn", "hide"].includes(definition.defaultSetting)) {
+    throw new AtProtocolValidationError("Label definition defaultSetting must be one of: ignore, warn, hide");
+  }
+  for (const locale of definition.locales) {
+    if (!locale.lang || !locale.name || !locale.description) {
+      throw new AtProtocolValidationError("Label definition locales must have a lang, a name and a description");
+    }
+    if ([...new Intl.Segmenter().segment(locale.name)].length > 64) {
+      throw new AtProtocolValidationError("Label definition locale name must be at most 64 characters");
+    }
+    if ([...new Intl.Segmenter().segment(locale.description)].length > 10000) {
+      throw new AtProtocolValidationError("Label definition locale description must be at most 10000 characters");
+    }
+  }
+}
@@ -0,0 +1,671 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { type Collection, type Filter, MongoBulkWriteError, ObjectId } from "mongodb";
+import type { MongoDBClient } from "./mongodb.js";
+import type { FormattedLabel, SavedLabel } from "./util/types.js";
+import { AtProtocolValidationError } from "./errors";
+import { formatLabel, toSignedLabel } from "./util/labels.js";
+import { matchesSubjectPattern, validateSubjectPattern } from "./util/validators.js";
+
+const ENDPOINTS_COLLECTION_NAME = "webhook_endpoints";
+const DELIVERIES_COLLECTION_NAME = "webhook_deliveries";
+const CURSOR_COLLECTION_NAME = "webhook_cursor";
+const CURSOR_ID = "labels";
+const CATCH_UP_BATCH_SIZE = 100;
+const DEFAULT_DELIVERY_LIMIT = 50;
+const DUPLICATE_KEY_ERROR = 11000;
+
+const DEFAULT_WEBHOOK_OPTIONS = {
+  interval: 5_000,
+  timeout: 10_000,
+  maxAttempts: 8,
+  retryDelay: 1_000,
+  maxRetryDelay: 60 * 60 * 1000,
+  batchSize: 20,
+};
+
+/**
+ * Headers sent with every webhook request.
+ */
+export const WEBHOOK_ID_HEADER = "x-labeler-webhook-id";
+export const WEBHOOK_TIMESTAMP_HEADER = "x-labeler-webhook-timestamp";
+export const WEBHOOK_SIGNATURE_HEADER = "x-labeler-webhook-signature";
+
+/**
+ * Options for delivering webhooks.
+ *
+ * @param interval How often due deliveries are sent once started, in milliseconds. Defaults to 5 seconds.
+ * @param timeout How long to wait for an endpoint to respond, in milliseconds. Defaults to 10 seconds.
+ * @param maxAttempts How many times a delivery is attempted before it is dead-lettered. Defaults to 8.
+ * @param retryDelay The delay before the first retry, in milliseconds, doubled for each
+ * further retry. Defaults to 1 second.
+ * @param maxRetryDelay The longest delay between retries, in milliseconds. Defaults to 1 hour.
+ * @param batchSize The maximum number of deliveries sent at once. Defaults to 20.
+ * @param now The clock deciding which deliveries are due. Defaults to the system clock.
+ * @param fetch The function used to send requests. Defaults to the global `fetch`.
+ */
+export interface WebhookOptions {
+  interval?: number;
+  timeout?: number;
+  maxAttempts?: number;
+  retryDelay?: number;
+  maxRetryDelay?: number;
+  batchSize?: number;
+  now?: () => Date;
+  fetch?: typeof fetch;
+}
+
+/**
+ * The kind of label change a webhook reports.
+ */
+export type WebhookEventType = "label" | "negate";
+
+/**
+ * An endpoint receiving webhooks.
+ */
+export interface WebhookEndpoint {
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  _id: ObjectId;
+  /** The http:// or https:// URL requests are posted to. */
+  url: string;
+  /** The secret payloads are signed with. */
+  secret: string;
+  /** Only report labels with these values. Defaults to every value. */
+  vals?: string[];
+  /**
+   * Only report labels on these subject URIs. Patterns match exactly, or every URI
+   * starting with their prefix if they end in `*`. Defaults to every subject.
+   */
+  subjects?: string[];
+  /** When the endpoint was registered, in ISO 8601 format. */
+  createdAt: string;
+}
+
+/**
+ * The JSON body posted to an endpoint.
+ */
+export interface WebhookPayload {
+  /** The delivery ID, the same for every attempt. */
+  id: string;
+  /** Whether a label was applied or negated. */
+  event: WebhookEventType;
+  /** The sequence number of the label in the label stream. */
+  seq: number;
+  /** The label, in the form served by `queryLabels`. */
+  label: FormattedLabel;
+  /** When the label change happened, in ISO 8601 format. */
+  createdAt: string;
+}
+
+/**
+ * Where a delivery is in the queue.
+ *
+ * - `pending`: waiting for its next attempt.
+ * - `delivered`: accepted by the endpoint.
+ * - `dead`: given up on after too many failed attempts.
+ */
+export type WebhookDeliveryStatus = "pending" | "delivered" | "dead";
+
+/**
+ * A webhook queued for an endpoint.
+ */
+export interface WebhookDelivery {
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  _id: ObjectId;
+  /** The ID of the endpoint the webhook is sent to. */
+  endpointId: ObjectId;
+  /** The body posted to the endpoint. */
+  payload: WebhookPayload;
+  /** Where the delivery is in the queue. */
+  status: WebhookDeliveryStatus;
+  /** How many times the delivery has been attempted. */
+  attempts: number;
+  /** When the delivery is next attempted, in ISO 8601 format. */
+  nextAttemptAt: string;
+  /** Why the last attempt failed. */
+  lastError?: string;
+  /** When the delivery was queued, in ISO 8601 format. */
+  createdAt: string;
+  /** When the endpoint accepted the delivery, in ISO 8601 format. */
+  deliveredAt?: string;
+}
+
+/**
+ * The sequence number of the last label whose webhooks were queued.
+ */
+interface WebhookCursor {
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  _id: string;
+  seq: number;
+}
+
+/**
+ * Filters for listing deliveries. All filters are optional and combined.
+ *
+ * @param status Only deliveries with this status.
+ * @param endpointId Only deliveries to this endpoint.
+ * @param limit The maximum number of deliveries to return. Defaults to 50.
+ */
+export interface WebhookDeliveryQuery {
+  status?: WebhookDeliveryStatus;
+  endpointId?: ObjectId;
+  limit?: number;
+}
+
+/**
+ * Result of sending the deliveries that were due.
+ *
+ * @param delivered The number of deliveries accepted by their endpoint.
+ * @param retried The number of deliveries that failed and were rescheduled.
+ * @param dead The number of deliveries that failed for the last time.
+ */
+export interface WebhookDeliveryResult {
+  delivered: number;
+  retried: number;
+  dead: number;
+}
+
+/**
+ * Signs a webhook body, as sent in the `x-labeler-webhook-signature` header.
+ *
+ * The signature is the hex HMAC-SHA256 of the timestamp header, a dot and the
+ * body, so a captured request cannot be replayed with another timestamp.
+ *
+ * @param secret - The endpoint's secret.
+ * @param timestamp - The value of the `x-labeler-webhook-timestamp` header.
+ * @param body - The raw request body.
+ * @returns The signature, prefixed with `sha256=`.
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+/**
+ * Checks the signature of a webhook request, for use by receivers.
+ *
+ * @param secret - The endpoint's secret.
+ * @param timestamp - The value of the `x-labeler-webhook-timestamp` header.
+ * @param body - The raw request body.
+ * @param signature - The value of the `x-labeler-webhook-signature` header.
+ * @returns True if the request was signed with the secret.
+ */
+export function verifyWebhookSignature(secret: string, timestamp: string, body: string, signature: string): boolean {
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Sends HTTP callbacks to registered endpoints when labels are created or negated.
+ *
+ * Webhooks are queued in MongoDB alongside the labels, so they survive restarts,
+ * and sent in the background. Labels are queued as they are stored, and each run
+ * first queues the labels stored since the last one queued, so a label whose
+ * webhooks failed to queue is still sent. Failed deliveries are retried with exponential
+ * backoff, then dead-lettered once they run out of attempts. Each request carries
+ * an HMAC-SHA256 signature of its body made with the endpoint's secret; see
+ * {@link verifyWebhookSignature}.
+ *
+ * @param client The MongoDB client whose database holds the endpoints and deliveries.
+ * @param options How and how often webhooks are delivered.
+ */
+export class WebhookDispatcher {
+  private readonly _client: MongoDBClient;
+  private readonly _options: Required<Omit<WebhookOptions, "now" | "fetch">>;
+  private readonly _now: () => Date;
+  private readonly _fetch: typeof fetch;
+
+  private _timer?: ReturnType<typeof setInterval>;
+  private _delivering?: Promise<WebhookDeliveryResult>;
+
+  /**
+   * Create a new WebhookDispatcher instance.
+   * @param client The MongoDB client whose database holds the endpoints and deliveries.
+   * @param options How and how often webhooks are delivered.
+   */
+  constructor(client: MongoDBClient, options: WebhookOptions = {}) {
+    const { now, fetch: fetchFn, ...rest } = options;
+    this._client = client;
+    this._options = { ...DEFAULT_WEBHOOK_OPTIONS, ...rest };
+    this._now = now ?? ((): Date => new Date());
+    this._fetch = fetchFn ?? fetch;
+  }
+
+  private get _endpoints(): Collection<WebhookEndpoint> {
+    return this._client.collection<WebhookEndpoint>(ENDPOINTS_COLLECTION_NAME);
+  }
+
+  private get _deliveries(): Collection<WebhookDelivery> {
+    return this._client.collection<WebhookDelivery>(DELIVERIES_COLLECTION_NAME);
+  }
+
+  private get _cursor(): Collection<WebhookCursor> {
+    return this._client.collection<WebhookCursor>(CURSOR_COLLECTION_NAME);
+  }
+
+  /**
+   * Whether deliveries are sent in the background.
+   */
+  get running(): boolean {
+    return this._timer !== undefined;
+  }
+
+  /**
+   * Create the indexes the dispatcher relies on. Must be called once the client is connected.
+   */
+  async init(): Promise<void> {
+    try {
+      await this._deliveries.createIndexes([
+        { key: { status: 1, nextAttemptAt: 1 } },
+        { key: { endpointId: 1, createdAt: -1 } },
+        // A label queued both as it is stored and by a catch-up run is sent once
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        { key: { endpointId: 1, "payload.seq": 1 }, unique: true },
+      ]);
+      // Labels stored before webhooks were first enabled are not sent
+      const last = await this._client.findLabels({ allowExpired: true }, { sort: { seq: -1 }, limit: 1 });
+      await this._cursor.updateOne(
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        { _id: CURSOR_ID },
+        { $setOnInsert: { seq: last.length ? last[0].seq : 0 } },
+        { upsert: true },
+      );
+    } catch (error) {
+      throw new Error(
+        `Failed to initialize webhooks: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Register an endpoint to receive webhooks.
+   *
+   * @param endpoint - The URL, secret and filters of the endpoint.
+   * @returns A promise that resolves to the registered endpoint.
+   * @throws {AtProtocolValidationError} If the URL, secret or a filter is invalid
+   */
+  async register(endpoint: {
+    url: string;
+    secret: string;
+    vals?: string[];
+    subjects?: string[];
+  }): Promise<WebhookEndpoint> {
+    let url: URL;
+    try {
+      url = new URL(endpoint.url);
+    } catch {
+      throw new AtProtocolValidationError(`Invalid webhook URL: ${endpoint.url}`);
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      throw new AtProtocolValidationError("Webhook URLs must use http:// or https://");
+    }
+    if (!endpoint.secret) {
+      throw new AtProtocolValidationError("Webhook secret cannot be empty");
+    }
+    for (const pattern of endpoint.subjects ?? []) {
+      validateSubjectPattern(pattern);
+    }
+
+    const registered: WebhookEndpoint = {
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      _id: new ObjectId(),
+      url: endpoint.url,
+      secret: endpoint.secret,
+      ...(endpoint.vals ? { vals: endpoint.vals } : {}),
+      ...(endpoint.subjects ? { subjects: endpoint.subjects } : {}),
+      createdAt: this._now().toISOString(),
+    };
+    try {
+      await this._endpoints.insertOne(registered);
+      return registered;
+    } catch (error) {
+      throw new Error(
+        `Failed to register webhook: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Remove an endpoint, discarding its pending deliveries.
+   *
+   * @param id - The endpoint ID.
+   * @returns A promise that resolves to true if the endpoint was removed.
+   */
+  async unregister(id: ObjectId): Promise<boolean> {
+    try {
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      const result = await this._endpoints.deleteOne({ _id: id });
+      await this._deliveries.deleteMany({ endpointId: id, status: "pending" });
+      return result.deletedCount > 0;
+    } catch (error) {
+      throw new Error(
+        `Failed to unregister webhook: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * List the registered endpoints.
+   *
+   * @returns A promise that resolves to the endpoints, oldest first.
+   */
+  async endpoints(): Promise<WebhookEndpoint[]> {
+    try {
+      return await this._endpoints.find().sort({ createdAt: 1 }).toArray();
+    } catch (error) {
+      throw new Error(
+        `Failed to list webhooks: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * List deliveries, newest first.
+   *
+   * @param query - The filters to apply.
+   * @returns A promise that resolves to the matching deliveries.
+   */
+  async deliveries(query: WebhookDeliveryQuery = {}): Promise<WebhookDelivery[]> {
+    const filter: Filter<WebhookDelivery> = {};
+    if (query.status) {
+      filter.status = query.status;
+    }
+    if (query.endpointId) {
+      filter.endpointId = query.endpointId;
+    }
+
+    try {
+      return await this._deliveries
+        .find(filter)
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        .sort({ createdAt: -1, _id: -1 })
+        .limit(query.limit ?? DEFAULT_DELIVERY_LIMIT)
+        .toArray();
+    } catch (error) {
+      throw new Error(
+        `Failed to list webhook deliveries: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Queue a webhook for a stored label to every endpoint whose filters match it.
+   *
+   * Queueing a label again does not queue a second webhook to the same endpoint.
+   *
+   * @param label - The created or negated label.
+   * @returns A promise that resolves to the newly queued deliveries.
+   */
+  async enqueue(label: SavedLabel): Promise<WebhookDelivery[]> {
+    try {
+      const deliveries = await this._queue(label, await this._endpoints.find().toArray());
+      // Labels queued in sequence move the cursor, so catch-up runs only go over labels that were missed
+      await this._cursor.updateOne(
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        { _id: CURSOR_ID, seq: label.seq - 1 },
+        { $set: { seq: label.seq } },
+      );
+      return deliveries;
+    } catch (error) {
+      throw new Error(
+        `Failed to queue webhooks: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Send the deliveries that are due.
+   *
+   * Only one run sends deliveries at a time; calling this during a run waits for it.
+   *
+   * @returns A promise that resolves to the outcome of the deliveries sent.
+   */
+  async deliverDue(): Promise<WebhookDeliveryResult> {
+    this._delivering ??= this._deliverDue().finally(() => {
+      this._delivering = undefined;
+    });
+    return this._delivering;
+  }
+
+  /**
+   * Put a dead-lettered delivery back in the queue, with a fresh set of attempts.
+   *
+   * @param id - The delivery ID.
+   * @returns A promise that resolves to the requeued delivery, or null if there is no
+   * dead-lettered delivery with the ID.
+   */
+  async redeliver(id: ObjectId): Promise<WebhookDelivery | null> {
+    try {
+      return await this._deliveries.findOneAndUpdate(
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        { _id: id, status: "dead" },
+        { $set: { status: "pending", attempts: 0, nextAttemptAt: this._now().toISOString() } },
+        { returnDocument: "after" },
+      );
+    } catch (error) {
+      throw new Error(
+        `Failed to redeliver webhook: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Send due deliveries in the background every interval, until {@link WebhookDispatcher.stop} is called.
+   */
+  start(): void {
+    if (this._timer) {
+      return;
+    }
+    this._timer = setInterval(() => {
+      this.deliverDue().catch((error: unknown) => {
+        console.error("Failed to deliver webhooks:", error);
+      });
+    }, this._options.interval);
+    this._timer.unref();
+  }
+
+  /**
+   * Stop sending deliveries in the background, waiting for a run in progress to finish.
+   */
+  async stop(): Promise<void> {
+    clearInterval(this._timer);
+    this._timer = undefined;
+    await this._delivering?.catch(() => undefined);
+  }
+
+  /**
+   * Queue the labels stored since the last label queued, in sequence order.
+   */
+  private async _catchUp(): Promise<void> {
+    try {
+      let labels: SavedLabel[];
+      do {
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        const cursor = await this._cursor.findOne({ _id: CURSOR_ID });
+        labels = await this._client.findLabels(
+          { seq: { $gt: cursor?.seq ?? 0 }, allowExpired: true },
+          { sort: { seq: 1 }, limit: CATCH_UP_BATCH_SIZE },
+        );
+        if (!labels.length) {
+          break;
+        }
+        const endpoints = await this._endpoints.find().toArray();
+        for (const label of labels) {
+          await this._queue(label, endpoints);
+        }
+        await this._cursor.updateOne(
+          // eslint-disable-next-line @typescript-eslint/naming-convention
+          { _id: CURSOR_ID },
+          { $max: { seq: labels[labels.length - 1].seq } },
+          { upsert: true },
+        );
+      } while (labels.length === CATCH_UP_BATCH_SIZE);
+    } catch (error) {
+      throw new Error(
+        `Failed to queue missed webhooks: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Insert the deliveries of a label to the endpoints whose filters match it,
+   * skipping endpoints it is already queued to.
+   */
+  private async _queue(label: SavedLabel, endpoints: WebhookEndpoint[]): Promise<WebhookDelivery[]> {
+    const matching = endpoints.filter((endpoint) => matchesEndpoint(endpoint, label));
+    if (!matching.length) {
+      return [];
+    }
+
+    const now = this._now().toISOString();
+    const formatted = formatLabel(toSignedLabel(label));
+    const deliveries = matching.map((endpoint): WebhookDelivery => {
+      const id = new ObjectId();
+      return {
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        _id: id,
+        endpointId: endpoint._id,
+        payload: {
+          id: id.toHexString(),
+          event: label.neg ? "negate" : "label",
+          seq: label.seq,
+          label: formatted,
+          createdAt: now,
+        },
+        status: "pending",
+        attempts: 0,
+        nextAttemptAt: now,
+        createdAt: now,
+      };
+    });
+    try {
+      await this._deliveries.insertMany(deliveries, { ordered: false });
+      return deliveries;
+    } catch (error) {
+      const writeErrors = error instanceof MongoBulkWriteError ? [error.writeErrors].flat() : [];
+      if (!writeErrors.length || writeErrors.some(({ code }) => code !== DUPLICATE_KEY_ERROR)) {
+        throw error;
+      }
+      const queued = new Set(writeErrors.map(({ index }) => index));
+      return deliveries.filter((_, index) => !queued.has(index));
+    }
+  }
+
+  private async _deliverDue(): Promise<WebhookDeliveryResult> {
+    await this._catchUp();
+    const result: WebhookDeliveryResult = { delivered: 0, retried: 0, dead: 0 };
+    const endpoints = new Map<string, WebhookEndpoint>();
+
+    for (let sent = 0; sent < this._options.batchSize; sent++) {
+      const delivery = await this._claimDelivery();
+      if (!delivery) {
+        break;
+      }
+
+      const key = delivery.endpointId.toHexString();
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      const endpoint = endpoints.get(key) ?? await this._endpoints.findOne({ _id: delivery.endpointId });
+      if (!endpoint) {
+        // The endpoint was unregistered after the delivery was claimed
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        await this._deliveries.deleteOne({ _id: delivery._id });
+        continue;
+      }
+      endpoints.set(key, endpoint);
+
+      const error = await this._send(endpoint, delivery.payload);
+      const outcome = await this._recordAttempt(delivery, error);
+      result[outcome]++;
+    }
+    return result;
+  }
+
+  /**
+   * Atomically takes a due delivery, pushing its next attempt back by the request
+   * timeout so that it is retried if this process stops before recording the outcome.
+   */
+  private async _claimDelivery(): Promise<WebhookDelivery | null> {
+    const now = this._now();
+    try {
+      return await this._deliveries.findOneAndUpdate(
+        { status: "pending", nextAttemptAt: { $lte: now.toISOString() } },
+        { $set: { nextAttemptAt: new Date(now.getTime() + this._options.timeout).toISOString() } },
+        { sort: { nextAttemptAt: 1 } },
+      );
+    } catch (error) {
+      throw new Error(
+        `Failed to claim webhook delivery: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Posts a payload to an endpoint.
+   *
+   * @returns Why the delivery failed, or undefined if the endpoint accepted it.
+   */
+  private async _send(endpoint: WebhookEndpoint, payload: WebhookPayload): Promise<string | undefined> {
+    const body = JSON.stringify(payload);
+    const timestamp = String(Math.floor(this._now().getTime() / 1000));
+    try {
+      const response = await this._fetch(endpoint.url, {
+        method: "POST",
+        headers: {
+          // eslint-disable-next-line @typescript-eslint/naming-convention
+          "content-type": "application/json",
+          [WEBHOOK_ID_HEADER]: payload.id,
+          [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(endpoint.secret, timestamp, body),
+        },
+        body,
+        signal: AbortSignal.timeout(this._options.timeout),
+      });
+      return response.ok ? undefined : `Endpoint responded with status ${response.status}`;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  /**
+   * Records the outcome of an attempt, rescheduling failed deliveries with exponential
+   * backoff until they run out of attempts.
+   */
+  private async _recordAttempt(
+    delivery: WebhookDelivery,
+    error: string | undefined,
+  ): Promise<keyof WebhookDeliveryResult> {
+    const now = this._now();
+    const attempts = delivery.attempts + 1;
+
+    let outcome: keyof WebhookDeliveryResult;
+    let update: Partial<WebhookDelivery>;
+    if (!error) {
+      outcome = "delivered";
+      update = { status: "delivered", attempts, deliveredAt: now.toISOString() };
+    } else if (attempts >= this._options.maxAttempts) {
+      outcome = "dead";
+      update = { status: "dead", attempts, lastError: error };
+    } else {
+      const delay = Math.min(this._options.retryDelay * 2 ** (attempts - 1), this._options.maxRetryDelay);
+      outcome = "retried";
+      update = { attempts, lastError: error, nextAttemptAt: new Date(now.getTime() + delay).toISOString() };
+    }
+
+    try {
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      await this._deliveries.updateOne({ _id: delivery._id }, { $set: update });
+      return outcome;
+    } catch (updateError) {
+      throw new Error(
+        `Failed to record webhook delivery: ${updateError instanceof Error ? updateError.message : String(updateError)}`,
+      );
+    }
+  }
+}
+
+/**
+ * Checks a label against an endpoint's value and subject filters.
+ */
+function matchesEndpoint(endpoint: WebhookEndpoint, label: SavedLabel): boolean {
+  return (!endpoint.vals || endpoint.vals.includes(label.val))
+    && (!endpoint.subjects || endpoint.subjects.some((pattern) => matchesSubjectPattern(pattern, label.uri)));
+}